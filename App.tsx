@@ -1,139 +1,625 @@
-import React, { useState, useRef, useCallback, useMemo } from 'react';
-import type { SortKey, EnrichedItem } from './types';
+import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
+import type { Provider, ProviderCapabilities, SortKey, ScoreSortKey, SortConfig, EnrichedItem, AppSettings, RateLimitInfo, SearchParams, HistoryEntry, RefineState, ReadingListEntry, Watch, SnippetSegment, ExploreMode, TagInfo } from './types';
 import { runSearch } from './services/aggregator';
-import { providerRegistry } from './services/providers';
-import { tokenize } from './utils';
-import { SearchIcon, StopIcon, CopyIcon, CheckIcon, ArrowUpIcon, ArrowDownIcon } from './components/Icons';
+import type { SearchProgress } from './services/aggregator';
+import { getProviders, getProvider, subscribeProviders, syncCustomProviders } from './services/providers';
+import { fetchQiitaTag } from './services/providers/qiita';
+import { buildQuery, formatQuery, queryKeywords, describeSearch } from './services/query';
+import { defaultSettings, loadSettings, saveSettings } from './services/settings';
+import { configureCache } from './services/cache';
+import { configureFetchBackend } from './services/fetchBackend';
+import { exportFormatterRegistry, allExportFormatters, copyExport, downloadExport } from './services/export';
+import { applyRefine, emptyRefine } from './services/refine';
+import { scoreItems } from './services/ranking';
+import { groupDuplicates } from './services/dedupe';
+import { loadHistory, saveHistory, addHistoryEntry, updateHistoryEntry, removeHistoryEntry } from './services/history';
+import { loadReadingList, saveReadingList, addToReadingList, updateReadingListEntry, removeFromReadingList, importReadingList } from './services/readingList';
+import { loadWatches, modifyWatches, subscribeWatches, createWatch, updateWatch, removeWatch, countNewItems, watchProviders } from './services/watches';
+import { takeSearchRequest, subscribeSearchRequests } from './services/searchRequest';
+import { indexItems, searchIndex } from './services/fulltext';
+import { tokenize, formatDuration } from './utils';
+import { SearchIcon, StopIcon, CopyIcon, CheckIcon, GearIcon, ClockIcon, DownloadIcon, BookmarkIcon } from './components/Icons';
+import SettingsPanel from './components/SettingsPanel';
+import type { SettingsPanelFields } from './components/SettingsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import RefineBar from './components/RefineBar';
+import ReadingListPanel from './components/ReadingListPanel';
+import WatchPanel from './components/WatchPanel';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import type { PinnedAnalytics } from './components/AnalyticsPanel';
+import PreviewPane from './components/PreviewPane';
+import ExploreBar from './components/ExploreBar';
+import ResultsTable, { resultColumns } from './components/ResultsTable';
 
 type SearchStatus = 'idle' | 'searching' | 'stopped' | 'finished';
-type SortDirection = 'asc' | 'desc';
-type SortConfig = {
-  key: SortKey;
-  direction: SortDirection;
+type Tab = 'search' | 'analytics' | 'readingList' | 'watches';
+const providerStateLabels = {
+  searching: '取得中',
+  done: '完了',
+  error: 'エラー',
+  stopped: '停止',
 };
 
+const capabilityLabels: { [K in keyof ProviderCapabilities]: [string, string] } = {
+  paging: ['複数ページ取得', '1ページのみ'],
+  metrics: ['いいね数あり', 'いいね数なし'],
+  body: ['本文プレビュー', 'プレビューなし'],
+  auth: ['トークン認証', ''],
+  queryQualifiers: ['検索オプション対応', ''],
+  explore: ['ユーザー・タグ探索', ''],
+  requiresDom: ['ウォッチ非対応', ''],
+};
+
+const describeCapabilities = (provider: Provider) =>
+  (Object.keys(capabilityLabels) as (keyof ProviderCapabilities)[])
+    .map(key => capabilityLabels[key][provider.capabilities[key] ? 0 : 1])
+    .filter(Boolean)
+    .join(' / ');
+
+const toTime = (iso?: string) => (iso ? new Date(iso).getTime() : 0);
+
+// Numeric sort value per field key; missing metrics sort below zero.
+const sortValues: { [K in Exclude<SortKey, ScoreSortKey>]: (item: EnrichedItem) => number } = {
+  latest: item => toTime(item.publishedAt),
+  likes: item => item.likeCount ?? -1,
+  bookmarks: item => item.hatenaBookmarkCount ?? -1,
+  stocks: item => item.stockCount ?? -1,
+  comments: item => item.commentCount ?? -1,
+  updated: item => toTime(item.updatedAt),
+  readingTime: item => item.readingMinutes ?? -1,
+};
+
+const isScoreSortKey = (key: SortKey): key is ScoreSortKey => key === 'relevance' || key === 'trending';
+
+const copyLimitPresets = [50, 300];
+
+type SearchMode = 'keyword' | ExploreMode['kind'];
+
+const searchModes: { key: SearchMode; label: string; placeholder: string }[] = [
+  { key: 'keyword', label: 'キーワード', placeholder: 'キーワード（スペース / & でAND、OR、-除外、tag:xxx など）' },
+  { key: 'userItems', label: 'ユーザーの記事', placeholder: 'Qiitaのユーザー名（例: Qiita）' },
+  { key: 'userStocks', label: 'ユーザーのストック', placeholder: 'Qiitaのユーザー名（例: Qiita）' },
+  { key: 'tagItems', label: 'タグの記事', placeholder: 'Qiitaのタグ（例: React）' },
+];
+
+// Provider errors start with a tag such as "[Qiita] ", which is redundant next to the display name.
+const stripProviderTag = (error: string) => error.replace(/^\[[^\]]+\]\s*/, '');
+
+function formatProgress(progress: SearchProgress): string {
+  const perProvider = Object.entries(progress.providers).map(([id, p]) => {
+    const name = getProvider(id)?.displayName ?? id;
+    const error = p.error ? `: ${stripProviderTag(p.error)}` : '';
+    return `${name}: ${p.pagesFetched}ページ ${p.itemsFound}件 (${providerStateLabels[p.state]}${error})`;
+  });
+  return `検索中... ${progress.itemsFound}件 | ${perProvider.join(' / ')}`;
+}
+
 const App: React.FC = () => {
   const [query, setQuery] = useState<string>('');
-  const [maxResults, setMaxResults] = useState<50 | 300>(50);
+  const [copyLimit, setCopyLimit] = useState<number>(defaultSettings.copyLimit);
+  const [copyLimitText, setCopyLimitText] = useState<string>(String(defaultSettings.copyLimit));
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'latest', direction: 'desc' });
   
   const [foundItems, setFoundItems] = useState<EnrichedItem[]>([]);
   const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set());
+  const [refine, setRefine] = useState<RefineState>(emptyRefine);
+  const [mergeDuplicates, setMergeDuplicates] = useState<boolean>(true);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [providerErrors, setProviderErrors] = useState<{ [providerId: string]: string | undefined }>({}); // Failed providers and why
+  const [searchTokens, setSearchTokens] = useState<string[]>([]); // Keywords of the last search, for title matching
+  const [resultLabel, setResultLabel] = useState<string>(''); // Query text of the shown results
+  const [explore, setExplore] = useState<ExploreMode | null>(null); // Listing mode of the shown results
+  const [tagInfo, setTagInfo] = useState<TagInfo | null>(null);
+  const [pinnedAnalytics, setPinnedAnalytics] = useState<PinnedAnalytics | null>(null); // Baseline for comparing two queries
   const [status, setStatus] = useState<SearchStatus>('idle');
   const [statusText, setStatusText] = useState<string>('');
   const [copied, setCopied] = useState<boolean>(false);
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false);
+  const [searchMode, setSearchMode] = useState<SearchMode>('keyword');
+  const [searchLocal, setSearchLocal] = useState<boolean>(false); // Search the local full-text index instead of the providers
+  const [snippets, setSnippets] = useState<Map<string, SnippetSegment[]>>(new Map()); // Highlighted excerpts from the local index
+  const [providers, setProviders] = useState<Provider[]>(getProviders());
+  const [enabledSources, setEnabledSources] = useState<Set<string>>(new Set(getProviders().map(p => p.id)));
+  const knownSourcesRef = useRef<Set<string>>(new Set(getProviders().map(p => p.id)));
+
+  const [settings, setSettings] = useState<AppSettings>(defaultSettings);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const historyLoadedRef = useRef<boolean>(false);
+  const [readingList, setReadingList] = useState<ReadingListEntry[]>([]);
+  const [activeTab, setActiveTab] = useState<Tab>('search');
+  const readingListLoadedRef = useRef<boolean>(false);
+  const [watches, setWatches] = useState<Watch[]>([]);
+  const [requestedQuery, setRequestedQuery] = useState<string | null>(null); // From the context menu or omnibox
+
+  useEffect(() => {
+    // Pending requests are taken after settings load, so the search uses the saved token.
+    // If storage fails, the panel still starts with the default settings.
+    loadSettings()
+      .catch(error => {
+        console.error('Failed to load settings:', error);
+        return defaultSettings;
+      })
+      .then(loaded => {
+        setSettings(loaded);
+        return takeSearchRequest();
+      })
+      .then(text => text && setRequestedQuery(text))
+      .catch(error => console.error('Failed to take the search request:', error));
+    loadHistory().then(entries => {
+      historyLoadedRef.current = true;
+      setHistory(entries);
+    });
+    loadReadingList().then(entries => {
+      readingListLoadedRef.current = true;
+      setReadingList(entries);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!historyLoadedRef.current) return;
+    saveHistory(history).catch(error => console.error('Failed to save history:', error));
+  }, [history]);
+
+  // Watches are also written by the service worker after each check, so they are
+  // saved per change and mirrored from storage rather than persisted as a whole.
+  useEffect(() => {
+    loadWatches().then(setWatches);
+    return subscribeWatches(setWatches);
+  }, []);
+
+  useEffect(() => {
+    return subscribeSearchRequests(() => {
+      takeSearchRequest().then(text => text && setRequestedQuery(text));
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!readingListLoadedRef.current) return;
+    saveReadingList(readingList).catch(error => console.error('Failed to save reading list:', error));
+  }, [readingList]);
+
+  // Newly registered sources, e.g. custom sites added in settings, start enabled.
+  useEffect(() => {
+    return subscribeProviders(next => {
+      setProviders(next);
+      const added = next.map(p => p.id).filter(id => !knownSourcesRef.current.has(id));
+      added.forEach(id => knownSourcesRef.current.add(id));
+      if (added.length > 0) setEnabledSources(prev => new Set([...prev, ...added]));
+    });
+  }, []);
+
+  useEffect(() => {
+    syncCustomProviders(settings.customProviders);
+  }, [settings.customProviders]);
+
+  useEffect(() => {
+    configureCache({
+      ttlMs: settings.cacheTtlMinutes * 60 * 1000,
+      maxEntries: settings.cacheMaxEntries,
+    });
+  }, [settings.cacheTtlMinutes, settings.cacheMaxEntries]);
+
+  // Restored searches set their own limit without touching the saved one.
+  useEffect(() => {
+    setCopyLimit(settings.copyLimit);
+  }, [settings.copyLimit]);
+
+  useEffect(() => {
+    setCopyLimitText(String(copyLimit));
+  }, [copyLimit]);
+
+  useEffect(() => {
+    configureFetchBackend({ mode: settings.fetchMode, proxyUrl: settings.proxyUrl });
+  }, [settings.fetchMode, settings.proxyUrl]);
+
+  // Tick once a second while a rate limit reset is pending, to drive the countdown.
+  useEffect(() => {
+    if (!rateLimit || rateLimit.resetAt <= Date.now()) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= rateLimit.resetAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [rateLimit]);
+
+  const updateSettings = (patch: Partial<AppSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveSettings(next).catch(error => console.error('Failed to save settings:', error));
+  };
+
+  const handleCopyLimitChange = (text: string) => {
+    setCopyLimitText(text);
+    const limit = Number(text);
+    if (Number.isInteger(limit) && limit >= 1) {
+      setCopyLimit(limit);
+      updateSettings({ copyLimit: limit });
+    }
+  };
+
+  const handleSaveSettings = (next: SettingsPanelFields) => {
+    if (next.qiitaToken !== settings.qiitaToken) {
+      setRateLimit(null); // Quota differs between anonymous and authenticated access
+    }
+    updateSettings(next);
+  };
+
+  // Structured filter inputs, kept as raw text and converted in `filters` below.
+  const [tagsText, setTagsText] = useState<string>('');
+  const [author, setAuthor] = useState<string>('');
+  const [createdFrom, setCreatedFrom] = useState<string>('');
+  const [createdTo, setCreatedTo] = useState<string>('');
+  const [minLikesText, setMinLikesText] = useState<string>('');
+  const [exclusionsText, setExclusionsText] = useState<string>('');
+
+  const filters = useMemo(() => ({
+    tags: tokenize(tagsText.replace(/,/g, ' ')),
+    author,
+    createdFrom,
+    createdTo,
+    minLikes: minLikesText.trim() === '' ? undefined : Number(minLikesText),
+    exclusions: tokenize(exclusionsText.replace(/,/g, ' ')),
+  }), [tagsText, author, createdFrom, createdTo, minLikesText, exclusionsText]);
+
+  const builtQuery = useMemo(() => buildQuery(query, filters), [query, filters]);
+  const queryPreview = useMemo(() => formatQuery(builtQuery.query), [builtQuery]);
 
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  const handleStartSearch = useCallback(async () => {
-    if (query.trim() === '') {
+  // Restores the form from a history entry.
+  const applySearchParams = (params: SearchParams) => {
+    setSearchMode(params.explore?.kind ?? 'keyword');
+    setQuery(params.explore ? params.explore.id : params.query);
+    setTagsText(params.filters.tags.join(' '));
+    setAuthor(params.filters.author);
+    setCreatedFrom(params.filters.createdFrom);
+    setCreatedTo(params.filters.createdTo);
+    setMinLikesText(params.filters.minLikes === undefined ? '' : String(params.filters.minLikes));
+    setExclusionsText(params.filters.exclusions.join(' '));
+    setEnabledSources(new Set(params.sources));
+    setSortConfig({ key: params.sortKey, direction: params.sortDirection });
+    setCopyLimit(params.copyLimit);
+  };
+
+  const runQuery = useCallback(async (params: SearchParams, forceRefresh = false) => {
+    const built = buildQuery(params.query, params.filters);
+    // Listings ignore the keyword form, so only keyword searches are validated.
+    if (!params.explore && built.query.clauses.length === 0) {
       setStatusText('キーワードを入力してください。');
       setTimeout(() => setStatusText(''), 3000);
       return;
     }
+    if (!params.explore && built.errors.length > 0) {
+      setStatusText(built.errors[0]);
+      setTimeout(() => setStatusText(''), 3000);
+      return;
+    }
+    if (!params.explore && params.sources.length === 0) {
+      setStatusText('検索対象を1つ以上選択してください。');
+      setTimeout(() => setStatusText(''), 3000);
+      return;
+    }
+    if (rateLimit && rateLimit.remaining === 0 && rateLimit.resetAt > Date.now()) {
+      setStatusText('API上限に達しています。リセットまでお待ちください。');
+      setTimeout(() => setStatusText(''), 3000);
+      return;
+    }
 
     setFoundItems([]);
+    setSnippets(new Map());
+    setPreviewUrl(null);
     setSelectedUrls(new Set());
+    setRefine(emptyRefine);
+    setProviderErrors({});
+    setExplore(params.explore ?? null);
+    setTagInfo(null);
     setStatus('searching');
     setStatusText('検索中...');
     abortControllerRef.current = new AbortController();
     const { signal } = abortControllerRef.current;
 
-    const tokens = tokenize(query);
-    const qiitaProvider = providerRegistry['qiita'];
+    const tokens = params.explore ? [] : queryKeywords(built.query);
+    setSearchTokens(tokens);
+    setResultLabel(describeSearch(params));
+    const selected = getProviders().filter(p => (params.explore ? p.capabilities.explore : params.sources.includes(p.id)));
+    if (params.explore?.kind === 'tagItems') {
+      fetchQiitaTag(params.explore.id, signal, settings.qiitaToken)
+        .then(setTagInfo)
+        .catch(error => {
+          if (error.name !== 'AbortError') console.warn('Failed to load tag info:', error);
+        });
+    }
 
+    let received = 0;
     try {
-      const finalItems: EnrichedItem[] = await runSearch({
+      await runSearch({
         tokens,
-        providers: [qiitaProvider],
-        maxTotal: 500, // Fetch up to 500 items
+        query: params.explore ? undefined : built.query,
+        explore: params.explore,
+        providers: selected,
+        maxTotal: settings.fetchLimits.maxTotal,
+        depths: settings.fetchLimits.depths,
+        stopBefore: settings.fetchLimits.stopBefore ? new Date(settings.fetchLimits.stopBefore).getTime() : undefined,
         signal,
+        accessTokens: { qiita: settings.qiitaToken },
+        forceRefresh,
+        onRateLimit: (_providerId, info) => setRateLimit(info),
+        onUpdate: ({ items, progress }) => {
+          if (signal.aborted) return;
+          received += items.length;
+          if (items.length > 0) {
+            setFoundItems(prev => [...prev, ...items]);
+            setSelectedUrls(prev => new Set([...prev, ...items.map(item => item.url)]));
+            indexItems(items).catch(error => console.warn('Failed to index articles:', error));
+          }
+          setStatusText(formatProgress(progress));
+          setProviderErrors(Object.fromEntries(
+            Object.entries(progress.providers).filter(([, p]) => p.state === 'error').map(([id, p]) => [id, p.error])
+          ));
+        },
       });
       
       if (signal.aborted) {
          setStatus('stopped');
-         setStatusText('検索を停止しました。');
+         setStatusText(`検索を停止しました。${received}件を保持しています。`);
       } else {
-        setFoundItems(finalItems);
-        setSelectedUrls(new Set(finalItems.map(item => item.url)));
         setStatus('finished');
       }
+      setHistory(prev => addHistoryEntry(prev, params, received));
 
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
         setStatus('stopped');
-        setStatusText('検索を停止しました。');
+        setStatusText(`検索を停止しました。${received}件を保持しています。`);
+        setHistory(prev => addHistoryEntry(prev, params, received));
       } else {
         console.error('Search error:', error);
         setStatus('idle');
         setStatusText('エラーが発生しました。');
       }
     }
-  }, [query]);
+  }, [settings, rateLimit]);
+
+  const currentParams = (): SearchParams => ({
+    query,
+    filters,
+    sources: providers.filter(p => enabledSources.has(p.id)).map(p => p.id),
+    sortKey: sortConfig.key,
+    sortDirection: sortConfig.direction,
+    copyLimit,
+  });
+
+  const runLocalSearch = async (text: string) => {
+    if (!text.trim()) {
+      setStatusText('キーワードを入力してください。');
+      setTimeout(() => setStatusText(''), 3000);
+      return;
+    }
+    const startedAt = performance.now();
+    try {
+      const hits = await searchIndex(text);
+      setFoundItems(hits.map(hit => hit.item));
+      setSnippets(new Map(hits.map(hit => [hit.item.url, hit.snippet])));
+      setSelectedUrls(new Set(hits.map(hit => hit.item.url)));
+      setRefine(emptyRefine);
+      setProviderErrors({});
+      setPreviewUrl(null);
+      setSearchTokens(tokenize(text));
+      setResultLabel(text.trim());
+      setExplore(null);
+      setTagInfo(null);
+      setStatus('finished');
+      setStatusText(`ローカル索引: ${hits.length}件 (${Math.round(performance.now() - startedAt)}ms)`);
+    } catch (error) {
+      console.error('Local search error:', error);
+      setStatusText('ローカル索引の検索に失敗しました。');
+    }
+  };
+
+  const handleStartSearch = () => {
+    if (searchMode !== 'keyword') {
+      const id = query.trim().replace(/^@/, '');
+      if (id) {
+        runQuery({ ...currentParams(), explore: { kind: searchMode, id } }, forceRefresh);
+      } else {
+        setStatusText('ユーザー名またはタグを入力してください。');
+        setTimeout(() => setStatusText(''), 3000);
+      }
+    } else if (searchLocal) {
+      runLocalSearch(query);
+    } else {
+      runQuery(currentParams(), forceRefresh);
+    }
+  };
+
+  const handleWatchCurrentQuery = () => {
+    const params = currentParams();
+    let error = builtQuery.query.clauses.length === 0 ? 'キーワードを入力してください。' : builtQuery.errors[0];
+    if (!error && watchProviders(params, providers).length === 0) {
+      error = 'ウォッチにはバックグラウンドで検索できるソース（Qiita・Zennなど）を1つ以上選んでください。';
+    }
+    if (!error) {
+      modifyWatches(prev => [createWatch(params), ...prev])
+        .then(setWatches)
+        .catch(error => console.error('Failed to save watch:', error));
+    }
+    setStatusText(error ?? 'ウォッチに登録しました。新着記事は通知でお知らせします。');
+    setTimeout(() => setStatusText(''), 3000);
+  };
+
+  // Lists a user's or tag's articles, e.g. from a clicked author or tag.
+  const handlePivot = (mode: ExploreMode) => {
+    if (status === 'searching') return;
+    setActiveTab('search');
+    runQuery({ ...currentParams(), explore: mode });
+  };
+
+  const handleWatchExplore = () => {
+    if (!explore) return;
+    modifyWatches(prev => [createWatch({ ...currentParams(), explore }), ...prev])
+      .then(setWatches)
+      .catch(error => console.error('Failed to save watch:', error));
+    setStatusText('ウォッチに登録しました。新着記事は通知でお知らせします。');
+    setTimeout(() => setStatusText(''), 3000);
+  };
+
+  const handleExitExplore = () => {
+    setExplore(null);
+    setTagInfo(null);
+  };
+
+  const handleUpdateWatch = (id: string, patch: Partial<Omit<Watch, 'id'>>) => {
+    modifyWatches(prev => updateWatch(prev, id, patch))
+      .then(setWatches)
+      .catch(error => console.error('Failed to save watch:', error));
+  };
+
+  const handleDeleteWatch = (id: string) => {
+    modifyWatches(prev => removeWatch(prev, id))
+      .then(setWatches)
+      .catch(error => console.error('Failed to save watch:', error));
+  };
+
+  const handleRunWatch = (watch: Watch) => {
+    if (status === 'searching') return;
+    setActiveTab('search');
+    applySearchParams(watch.params);
+    runQuery(watch.params);
+  };
+
+  const handleRunHistoryEntry = (entry: HistoryEntry) => {
+    if (status === 'searching') return;
+    applySearchParams(entry.params);
+    setShowHistory(false);
+    runQuery(entry.params);
+  };
   
+  useEffect(() => {
+    if (requestedQuery === null) return;
+    setRequestedQuery(null);
+    setActiveTab('search');
+    setSearchMode('keyword');
+    setQuery(requestedQuery);
+    // A running search is left alone; the text stays in the box for the next run.
+    if (status !== 'searching') runQuery({ ...currentParams(), query: requestedQuery });
+  }, [requestedQuery]);
+
   const handleStopSearch = () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
   };
   
+  // Cross-posts and URL variants collapse into one row; the others are listed under it.
+  const duplicateGroups = useMemo(
+    () => (mergeDuplicates ? groupDuplicates(foundItems) : { primaries: foundItems, duplicates: new Map<string, EnrichedItem[]>() }),
+    [foundItems, mergeDuplicates]
+  );
+
+  const refinedItems = useMemo(() => applyRefine(duplicateGroups.primaries, refine), [duplicateGroups, refine]);
+
+  const scores = useMemo(() => {
+    if (!isScoreSortKey(sortConfig.key)) return null;
+    return scoreItems(refinedItems, searchTokens, settings.scoreWeights[sortConfig.key]);
+  }, [refinedItems, searchTokens, sortConfig.key, settings.scoreWeights]);
+
   const sortedItems = useMemo(() => {
-    const sortableItems = [...foundItems];
+    const sortableItems = [...refinedItems];
     sortableItems.sort((a, b) => {
         const { key, direction } = sortConfig;
         const dir = direction === 'asc' ? 1 : -1;
+        const getValue = isScoreSortKey(key)
+          ? (item: EnrichedItem) => scores?.get(item.url)?.total ?? 0
+          : sortValues[key];
 
-        if (key === 'latest') {
-            const dateA = a.publishedAt ? new Date(a.publishedAt).getTime() : 0;
-            const dateB = b.publishedAt ? new Date(b.publishedAt).getTime() : 0;
-            return (dateA - dateB) * dir;
-        }
-        if (key === 'likes') {
-            const likesA = a.likeCount ?? -1;
-            const likesB = b.likeCount ?? -1;
-            if (likesA !== likesB) {
-                return (likesA - likesB) * dir;
-            }
-             const dateA = a.publishedAt ? new Date(a.publishedAt).getTime() : 0;
-            const dateB = b.publishedAt ? new Date(b.publishedAt).getTime() : 0;
-            return (dateB - dateA); // Secondary sort by latest
+        const valueA = getValue(a);
+        const valueB = getValue(b);
+        if (valueA !== valueB) {
+            return (valueA - valueB) * dir;
         }
-        return 0;
+        return sortValues.latest(b) - sortValues.latest(a); // Secondary sort by latest
     });
     return sortableItems;
-  }, [foundItems, sortConfig]);
+  }, [refinedItems, sortConfig, scores]);
 
-  const handleCopy = () => {
-    const urlsToCopy = sortedItems
+  const exportFormatter = exportFormatterRegistry[settings.exportFormat] ?? allExportFormatters[0];
+
+  const exportSelection = () => {
+    const items = sortedItems
       .filter(item => selectedUrls.has(item.url))
-      .slice(0, maxResults)
-      .map(item => item.url)
-      .join('\n');
-      
-    if (urlsToCopy) {
-      navigator.clipboard.writeText(urlsToCopy);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
+      .slice(0, copyLimit);
+    return items.length > 0 ? exportFormatter.format(items, { template: settings.exportTemplate }) : '';
+  };
+
+  const handleCopy = () => {
+    const text = exportSelection();
+    if (text) {
+      copyExport(text, exportFormatter.mimeType)
+        .then(() => {
+          setCopied(true);
+          setTimeout(() => setCopied(false), 2000);
+        })
+        .catch(error => console.error('Failed to copy:', error));
     }
   };
 
-  const handleSelectRow = (url: string) => {
-    const newSelectedUrls = new Set(selectedUrls);
-    if (newSelectedUrls.has(url)) {
-      newSelectedUrls.delete(url);
-    } else {
-      newSelectedUrls.add(url);
+  const handleDownload = () => {
+    const text = exportSelection();
+    if (text) {
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadExport(text, exportFormatter, `qiita-search-${stamp}`);
     }
-    setSelectedUrls(newSelectedUrls);
   };
 
-  const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.checked) {
-      setSelectedUrls(new Set(foundItems.map(item => item.url)));
+  const handleToggleColumn = (key: string) => {
+    const { visible } = settings.columns;
+    updateSettings({
+      columns: { ...settings.columns, visible: visible.includes(key) ? visible.filter(k => k !== key) : [...visible, key] },
+    });
+  };
+
+  const handleToggleSource = (id: string) => {
+    const next = new Set(enabledSources);
+    if (next.has(id)) {
+      next.delete(id);
     } else {
-      setSelectedUrls(new Set());
+      next.add(id);
     }
+    setEnabledSources(next);
   };
+
+  const readingListUrls = useMemo(() => new Set(readingList.map(entry => entry.url)), [readingList]);
+
+  const handleToggleReadingList = (item: EnrichedItem) => {
+    setReadingList(prev =>
+      readingListUrls.has(item.url) ? removeFromReadingList(prev, [item.url]) : addToReadingList(prev, [item])
+    );
+  };
+
+  const handleAddSelectedToReadingList = () => {
+    setReadingList(prev => addToReadingList(prev, sortedItems.filter(item => selectedUrls.has(item.url))));
+  };
+
+  const handleImportReadingList = (json: string) => {
+    const result = importReadingList(readingList, json);
+    setReadingList(result.entries);
+    return result.added;
+  };
+
+  const previewItem = useMemo(
+    () => (previewUrl ? foundItems.find(item => item.url === previewUrl) : undefined),
+    [foundItems, previewUrl]
+  );
+
+  const visibleSelectedCount = useMemo(
+    () => refinedItems.filter(item => selectedUrls.has(item.url)).length,
+    [refinedItems, selectedUrls]
+  );
   
   const handleSort = (key: SortKey) => {
     setSortConfig(prev => {
@@ -147,165 +633,400 @@ const App: React.FC = () => {
   const currentStatusText = useMemo(() => {
     if (status === 'searching' || status === 'stopped') return statusText;
     if (status === 'finished' || (status === 'idle' && foundItems.length > 0)) {
-        return `完了 ${foundItems.length}件 | ${selectedUrls.size}件選択中 (上位${maxResults}件をコピー)`;
+        const shown = refinedItems.length !== foundItems.length ? ` (表示 ${refinedItems.length}件)` : '';
+        const cachedCount = foundItems.filter(item => item.cached).length;
+        const cached = cachedCount > 0 ? ` (キャッシュ ${cachedCount}件)` : '';
+        const mergedCount = foundItems.length - duplicateGroups.primaries.length;
+        const merged = mergedCount > 0 ? ` (重複 ${mergedCount}件をまとめました)` : '';
+        const failedIds = Object.keys(providerErrors);
+        const failed = failedIds.length > 0
+          ? ` | 取得失敗: ${failedIds
+            .map(id => {
+              const error = providerErrors[id];
+              return `${getProvider(id)?.displayName ?? id}${error ? ` (${stripProviderTag(error)})` : ''}`;
+            })
+            .join(', ')}`
+          : '';
+        return `完了 ${foundItems.length}件${merged}${shown}${cached}${failed} | ${visibleSelectedCount}件選択中 (上位${copyLimit}件をコピー)`;
     }
     return statusText;
-  }, [status, statusText, foundItems.length, selectedUrls.size, maxResults]);
-
-  const isAllSelected = useMemo(() => {
-    return foundItems.length > 0 && selectedUrls.size === foundItems.length;
-  }, [foundItems, selectedUrls]);
+  }, [status, statusText, foundItems, duplicateGroups, refinedItems.length, visibleSelectedCount, copyLimit, providerErrors]);
 
+  const rateLimitText = useMemo(() => {
+    if (!rateLimit) return settings.qiitaToken ? '認証済み' : '';
+    const limit = rateLimit.limit !== undefined ? `/${rateLimit.limit}` : '';
+    const untilReset = rateLimit.resetAt - now;
+    if (untilReset <= 0) return `API残り ${rateLimit.remaining}${limit}`;
+    const prefix = rateLimit.remaining === 0 ? 'API上限に達しました' : `API残り ${rateLimit.remaining}${limit}`;
+    return `${prefix} | リセットまで ${formatDuration(untilReset)}`;
+  }, [rateLimit, now, settings.qiitaToken]);
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 flex p-2">
       <div className="w-full max-w-lg mx-auto bg-gray-800 rounded-2xl shadow-lg p-4 space-y-4 border border-gray-700 flex flex-col">
-        <header>
+        <header className="relative">
           <h1 className="text-2xl font-bold text-center text-cyan-400">勝Qiitaサーチ</h1>
+          <div className="absolute right-0 top-1/2 -translate-y-1/2 flex gap-1">
+            <button
+              onClick={() => setShowHistory(prev => !prev)}
+              title="検索履歴"
+              className={`p-1 rounded-lg hover:bg-gray-700 ${showHistory ? 'text-cyan-400' : 'text-gray-400'}`}
+            >
+              <ClockIcon />
+            </button>
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              title="設定"
+              className={`p-1 rounded-lg hover:bg-gray-700 ${showSettings ? 'text-cyan-400' : 'text-gray-400'}`}
+            >
+              <GearIcon />
+            </button>
+          </div>
         </header>
 
-        <div className="space-y-3">
-          <div className="relative">
-            <input
-              id="q"
-              type="text"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              placeholder="キーワード（スペース / & でAND検索）"
-              className="w-full bg-gray-900 border-2 border-gray-600 focus:border-cyan-500 focus:ring-cyan-500 rounded-lg py-2 px-3 text-white placeholder-gray-500 transition-colors text-sm"
-            />
-          </div>
+        {showHistory && (
+          <HistoryPanel
+            entries={history}
+            onRun={handleRunHistoryEntry}
+            onUpdate={(id, patch) => setHistory(prev => updateHistoryEntry(prev, id, patch))}
+            onDelete={(id) => setHistory(prev => removeHistoryEntry(prev, id))}
+          />
+        )}
+
+        {showSettings && (
+          <SettingsPanel
+            settings={settings}
+            onSave={handleSaveSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+
+        <div className="flex border-b border-gray-700 text-sm">
+          {([['search', '検索'], ['analytics', '分析'], ['readingList', `リーディングリスト (${readingList.filter(entry => !entry.read).length})`], ['watches', `ウォッチ (${countNewItems(watches)})`]] as [Tab, string][]).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`flex-1 py-1.5 -mb-px border-b-2 ${activeTab === tab ? 'border-cyan-500 text-cyan-400 font-semibold' : 'border-transparent text-gray-400 hover:text-gray-200'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'search' ? (
+          <>
+            <div className="space-y-3">
+              <div className="relative flex gap-2">
+                <select
+                  value={searchMode}
+                  onChange={(e) => setSearchMode(e.target.value as SearchMode)}
+                  title="ユーザー・タグの記事はQiitaから一覧します"
+                  className="bg-gray-900 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-2 text-white text-sm"
+                >
+                  {searchModes.map(mode => <option key={mode.key} value={mode.key}>{mode.label}</option>)}
+                </select>
+                <input
+                  id="q"
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={searchModes.find(mode => mode.key === searchMode)?.placeholder}
+                  className="flex-1 min-w-0 bg-gray-900 border-2 border-gray-600 focus:border-cyan-500 focus:ring-cyan-500 rounded-lg py-2 px-3 text-white placeholder-gray-500 transition-colors text-sm"
+                />
+              </div>
+
+              <fieldset className="p-3 border-2 border-gray-700 rounded-lg">
+                <legend className="px-2 text-gray-400 font-semibold text-sm">検索対象</legend>
+                <div className="flex flex-wrap gap-4">
+                  {providers.map(p => (
+                    <label key={p.id} title={describeCapabilities(p)} className="flex items-center space-x-2 cursor-pointer text-sm">
+                      <input type="checkbox" checked={enabledSources.has(p.id)} onChange={() => handleToggleSource(p.id)} className="h-4 w-4 rounded bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                      <span>{p.displayName}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">検索オプションはQiitaのみ有効です。Zennはキーワード、またはタグ・投稿者の単独指定で、Noteはキーワードで検索します。</p>
+              </fieldset>
+
+              <details className="p-3 border-2 border-gray-700 rounded-lg">
+                <summary className="text-gray-400 font-semibold text-sm cursor-pointer">詳細条件</summary>
+                <div className="grid grid-cols-2 gap-2 mt-3 text-sm">
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">タグ（スペース区切り）</span>
+                    <input type="text" value={tagsText} onChange={(e) => setTagsText(e.target.value)} placeholder="React TypeScript" className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white placeholder-gray-500"/>
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">投稿者</span>
+                    <input type="text" value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="@user_id" className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white placeholder-gray-500"/>
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">投稿日（から）</span>
+                    <input type="date" value={createdFrom} onChange={(e) => setCreatedFrom(e.target.value)} className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"/>
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">投稿日（まで）</span>
+                    <input type="date" value={createdTo} onChange={(e) => setCreatedTo(e.target.value)} className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"/>
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">最低いいね数</span>
+                    <input type="number" min={0} value={minLikesText} onChange={(e) => setMinLikesText(e.target.value)} className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"/>
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">除外キーワード</span>
+                    <input type="text" value={exclusionsText} onChange={(e) => setExclusionsText(e.target.value)} placeholder="jQuery" className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white placeholder-gray-500"/>
+                  </label>
+                </div>
+              </details>
+
+              {queryPreview && (
+                <div className="text-xs text-gray-400 break-all">
+                  <span className="font-semibold">Qiitaクエリ:</span> <code className="text-cyan-300">{queryPreview}</code>
+                </div>
+              )}
+              {builtQuery.errors.map((error) => (
+                <div key={error} className="text-xs text-red-400">{error}</div>
+              ))}
           
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-            <fieldset className="p-3 border-2 border-gray-700 rounded-lg">
-              <legend className="px-2 text-gray-400 font-semibold text-sm">コピー上限</legend>
-              <div className="flex gap-4">
-                <label className="flex items-center space-x-2 cursor-pointer text-sm">
-                  <input type="radio" name="count" value="50" checked={maxResults === 50} onChange={() => setMaxResults(50)} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
-                  <span>TOP 50</span>
-                </label>
-                <label className="flex items-center space-x-2 cursor-pointer text-sm">
-                  <input type="radio" name="count" value="300" checked={maxResults === 300} onChange={() => setMaxResults(300)} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
-                  <span>TOP 300</span>
-                </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <fieldset className="p-3 border-2 border-gray-700 rounded-lg">
+                  <legend className="px-2 text-gray-400 font-semibold text-sm">コピー上限</legend>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span>TOP</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={copyLimitText}
+                      onChange={(e) => handleCopyLimitChange(e.target.value)}
+                      className={`w-20 bg-gray-900 border ${String(copyLimit) === copyLimitText ? 'border-gray-600' : 'border-red-500'} rounded py-1 px-2 text-white`}
+                    />
+                    {copyLimitPresets.map(limit => (
+                      <button
+                        key={limit}
+                        onClick={() => handleCopyLimitChange(String(limit))}
+                        className={`px-2 py-0.5 rounded text-xs ${copyLimit === limit ? 'bg-cyan-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                      >
+                        {limit}
+                      </button>
+                    ))}
+                  </div>
+                </fieldset>
+
+                <fieldset className="p-3 border-2 border-gray-700 rounded-lg">
+                  <legend className="px-2 text-gray-400 font-semibold text-sm">初期ソート</legend>
+                  <div className="flex flex-wrap gap-4">
+                    <label className="flex items-center space-x-2 cursor-pointer text-sm">
+                      <input type="radio" name="sort" value="latest" checked={sortConfig.key === 'latest'} onChange={() => handleSort('latest')} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                      <span>最新</span>
+                    </label>
+                     <label className="flex items-center space-x-2 cursor-pointer text-sm">
+                      <input type="radio" name="sort" value="likes" checked={sortConfig.key === 'likes'} onChange={() => handleSort('likes')} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                      <span>いいね</span>
+                    </label>
+                    <label className="flex items-center space-x-2 cursor-pointer text-sm" title="はてなブックマーク数。サイトをまたいで比較できます">
+                      <input type="radio" name="sort" value="bookmarks" checked={sortConfig.key === 'bookmarks'} onChange={() => handleSort('bookmarks')} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                      <span>はてブ</span>
+                    </label>
+                    <label className="flex items-center space-x-2 cursor-pointer text-sm">
+                      <input type="radio" name="sort" value="relevance" checked={sortConfig.key === 'relevance'} onChange={() => handleSort('relevance')} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                      <span>関連度</span>
+                    </label>
+                    <label className="flex items-center space-x-2 cursor-pointer text-sm">
+                      <input type="radio" name="sort" value="trending" checked={sortConfig.key === 'trending'} onChange={() => handleSort('trending')} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                      <span>トレンド</span>
+                    </label>
+                  </div>
+                </fieldset>
               </div>
-            </fieldset>
-
-            <fieldset className="p-3 border-2 border-gray-700 rounded-lg">
-              <legend className="px-2 text-gray-400 font-semibold text-sm">初期ソート</legend>
-              <div className="flex flex-wrap gap-4">
-                <label className="flex items-center space-x-2 cursor-pointer text-sm">
-                  <input type="radio" name="sort" value="latest" checked={sortConfig.key === 'latest'} onChange={() => handleSort('latest')} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
-                  <span>最新</span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                <label className="flex items-center space-x-2 cursor-pointer text-xs text-gray-400">
+                  <input type="checkbox" checked={forceRefresh} disabled={searchLocal} onChange={(e) => setForceRefresh(e.target.checked)} className="h-4 w-4 rounded bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                  <span>キャッシュを使わずに最新を取得</span>
                 </label>
-                 <label className="flex items-center space-x-2 cursor-pointer text-sm">
-                  <input type="radio" name="sort" value="likes" checked={sortConfig.key === 'likes'} onChange={() => handleSort('likes')} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
-                  <span>いいね</span>
+                <label className="flex items-center space-x-2 cursor-pointer text-xs text-gray-400" title="これまでに取得した記事のタイトル・本文を検索します。&quot;…&quot; でフレーズ検索">
+                  <input type="checkbox" checked={searchLocal} onChange={(e) => setSearchLocal(e.target.checked)} className="h-4 w-4 rounded bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                  <span>ローカル索引から検索（オフライン）</span>
                 </label>
               </div>
-            </fieldset>
-          </div>
-        </div>
+              <button
+                onClick={handleWatchCurrentQuery}
+                title="この条件を定期的に再検索し、新着記事を通知します"
+                className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-xs text-gray-300"
+              >
+                ウォッチ
+              </button>
+            </div>
 
-        <div className="flex items-center justify-center space-x-3">
-          <button 
-            id="start" 
-            onClick={handleStartSearch} 
-            disabled={status === 'searching'}
-            className="flex items-center justify-center gap-2 flex-1 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 text-white font-bold rounded-lg shadow-md transition-all duration-300 text-sm"
-          >
-            <SearchIcon />
-            検索開始
-          </button>
-          <button 
-            id="stop" 
-            onClick={handleStopSearch}
-            disabled={status !== 'searching'}
-            className="flex items-center justify-center gap-2 flex-1 px-4 py-2 bg-red-600 hover:bg-red-500 disabled:bg-gray-500 text-white font-bold rounded-lg shadow-md transition-all duration-300 text-sm"
-          >
-            <StopIcon />
-            停止
-          </button>
-          <button 
-            id="copy" 
-            onClick={handleCopy}
-            disabled={selectedUrls.size === 0}
-            className="relative flex items-center justify-center gap-2 flex-1 px-4 py-2 bg-green-600 hover:bg-green-500 disabled:bg-gray-500 text-white font-bold rounded-lg shadow-md transition-all duration-300 text-sm"
-          >
-            {copied ? <CheckIcon /> : <CopyIcon />}
-            {copied ? 'コピー完了' : `選択URLコピー`}
-          </button>
-        </div>
+            <div className="flex items-center justify-center space-x-3">
+              <button 
+                id="start" 
+                onClick={handleStartSearch} 
+                disabled={status === 'searching'}
+                className="flex items-center justify-center gap-2 flex-1 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 text-white font-bold rounded-lg shadow-md transition-all duration-300 text-sm"
+              >
+                <SearchIcon />
+                検索開始
+              </button>
+              <button 
+                id="stop" 
+                onClick={handleStopSearch}
+                disabled={status !== 'searching'}
+                className="flex items-center justify-center gap-2 flex-1 px-4 py-2 bg-red-600 hover:bg-red-500 disabled:bg-gray-500 text-white font-bold rounded-lg shadow-md transition-all duration-300 text-sm"
+              >
+                <StopIcon />
+                停止
+              </button>
+              <button 
+                id="copy" 
+                onClick={handleCopy}
+                disabled={visibleSelectedCount === 0}
+                className="relative flex items-center justify-center gap-2 flex-1 px-4 py-2 bg-green-600 hover:bg-green-500 disabled:bg-gray-500 text-white font-bold rounded-lg shadow-md transition-all duration-300 text-sm"
+              >
+                {copied ? <CheckIcon /> : <CopyIcon />}
+                {copied ? 'コピー完了' : exportFormatter.id === 'urls' ? '選択URLコピー' : '選択コピー'}
+              </button>
+            </div>
 
-        <div className="space-y-1 flex-grow flex flex-col min-h-0">
-            <div className="flex-grow bg-gray-900 border-2 border-gray-600 rounded-lg overflow-auto min-h-0">
-                <table className="w-full text-sm text-left text-gray-300 table-fixed">
-                    <thead className="text-xs text-cyan-400 uppercase bg-gray-700 sticky top-0 z-10">
-                        <tr>
-                            <th scope="col" className="p-2 w-12 text-center">
-                                <input type="checkbox"
-                                       checked={isAllSelected}
-                                       onChange={handleSelectAll}
-                                       className="h-4 w-4 rounded bg-gray-600 border-gray-500 text-cyan-500 focus:ring-cyan-600"
-                                />
-                            </th>
-                            <th scope="col" className="p-2 w-16 text-center">No.</th>
-                            <th scope="col" className="p-2">Title</th>
-                            <th scope="col" className="p-2 w-40 cursor-pointer hover:bg-gray-600" onClick={() => handleSort('latest')}>
-                                <div className="flex items-center justify-between">
-                                  <span>公開日</span>
-                                  {sortConfig.key === 'latest' && (sortConfig.direction === 'asc' ? <ArrowUpIcon /> : <ArrowDownIcon />)}
-                                </div>
-                            </th>
-                            <th scope="col" className="p-2 w-24 text-center cursor-pointer hover:bg-gray-600" onClick={() => handleSort('likes')}>
-                               <div className="flex items-center justify-center gap-1">
-                                  <span>いいね</span>
-                                  {sortConfig.key === 'likes' && (sortConfig.direction === 'asc' ? <ArrowUpIcon /> : <ArrowDownIcon />)}
-                                </div>
-                            </th>
-                        </tr>
-                    </thead>
-                    <tbody>
-                        {status === 'searching' && (
-                            <tr>
-                                <td colSpan={5} className="text-center p-8 text-gray-400">
-                                    <div className="animate-pulse">Qiitaから記事を取得しています...</div>
-                                </td>
-                            </tr>
-                        )}
-                        {sortedItems.map((item, index) => (
-                            <tr key={item.url} className="bg-gray-800 border-b border-gray-700 hover:bg-gray-700/50">
-                                <td className="p-2 text-center">
-                                    <input type="checkbox"
-                                           checked={selectedUrls.has(item.url)}
-                                           onChange={() => handleSelectRow(item.url)}
-                                           className="h-4 w-4 rounded bg-gray-600 border-gray-500 text-cyan-500 focus:ring-cyan-600"
-                                    />
-                                </td>
-                                <td className="p-2 text-center text-gray-400">{index + 1}</td>
-                                <td className="p-2 truncate">
-                                  <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline" title={item.title}>
-                                    {item.title ?? '-'}
-                                  </a>
-                                </td>
-                                <td className="p-2 text-gray-400">
-                                  {item.publishedAt ? new Date(item.publishedAt).toLocaleDateString('ja-JP') : '-'}
-                                </td>
-                                <td className="p-2 text-center">{item.likeCount ?? '-'}</td>
-                            </tr>
-                        ))}
-                    </tbody>
-                </table>
-                 {status !== 'searching' && foundItems.length === 0 && (
-                    <div className="text-center p-8 text-gray-500">
-                        ここに検索結果が表示されます
-                    </div>
-                 )}
+            <div className="flex items-center gap-2 text-sm">
+              <label htmlFor="export-format" className="text-gray-400 font-semibold whitespace-nowrap">出力形式</label>
+              <select
+                id="export-format"
+                value={exportFormatter.id}
+                onChange={(e) => updateSettings({ exportFormat: e.target.value })}
+                className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"
+              >
+                {allExportFormatters.map(formatter => (
+                  <option key={formatter.id} value={formatter.id}>{formatter.displayName}</option>
+                ))}
+              </select>
+              {exportFormatter.id === 'template' && (
+                <input
+                  type="text"
+                  value={settings.exportTemplate}
+                  onChange={(e) => updateSettings({ exportTemplate: e.target.value })}
+                  title="{title} {url} {date} {likeCount} {source} {index} などが使えます"
+                  className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white font-mono text-xs"
+                />
+              )}
+              <button
+                onClick={handleAddSelectedToReadingList}
+                disabled={visibleSelectedCount === 0}
+                title="選択した記事をリーディングリストに追加"
+                className="ml-auto flex items-center gap-1 px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg"
+              >
+                <BookmarkIcon />
+                リスト
+              </button>
+              <button
+                onClick={handleDownload}
+                disabled={visibleSelectedCount === 0}
+                title="ファイルに保存"
+                className="flex items-center gap-1 px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg"
+              >
+                <DownloadIcon />
+                保存
+              </button>
             </div>
-            <div id="status" className="text-right text-xs text-gray-400 h-5 pr-2">
-                {currentStatusText}
+
+            {explore && (
+              <ExploreBar
+                mode={explore}
+                tagInfo={tagInfo}
+                disabled={status === 'searching'}
+                onPivot={handlePivot}
+                onWatch={handleWatchExplore}
+                onExit={handleExitExplore}
+              />
+            )}
+
+            {foundItems.length > 0 && (
+              <RefineBar items={duplicateGroups.primaries} visibleCount={refinedItems.length} state={refine} onChange={setRefine} />
+            )}
+
+            <div className="space-y-1 flex-grow flex flex-col min-h-0">
+                <details className="text-xs text-gray-400">
+                  <summary className="cursor-pointer">表示列</summary>
+                  <label className="flex items-center space-x-1 cursor-pointer mt-1">
+                    <input type="checkbox" checked={mergeDuplicates} onChange={(e) => setMergeDuplicates(e.target.checked)} className="h-3 w-3 rounded bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                    <span>重複・転載記事を1行にまとめる</span>
+                  </label>
+                  <div className="flex flex-wrap gap-3 mt-1">
+                    {resultColumns.map(column => (
+                      <label key={column.key} className="flex items-center space-x-1 cursor-pointer">
+                        <input type="checkbox" checked={settings.columns.visible.includes(column.key)} onChange={() => handleToggleColumn(column.key)} className="h-3 w-3 rounded bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+                        <span>{column.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </details>
+                <ResultsTable
+                  items={sortedItems}
+                  duplicates={duplicateGroups.duplicates}
+                  scores={scores}
+                  snippets={snippets}
+                  sortConfig={sortConfig}
+                  onSort={handleSort}
+                  selectedUrls={selectedUrls}
+                  onSelectionChange={setSelectedUrls}
+                  copyLimit={copyLimit}
+                  onCopy={handleCopy}
+                  previewUrl={previewUrl}
+                  onPreview={setPreviewUrl}
+                  readingListUrls={readingListUrls}
+                  onToggleReadingList={handleToggleReadingList}
+                  onPivot={handlePivot}
+                  layout={settings.columns}
+                  onLayoutChange={columns => updateSettings({ columns })}
+                  placeholder={
+                    status === 'searching' && foundItems.length === 0 ? (
+                      <div className="text-center p-8 text-gray-400 animate-pulse">記事を取得しています...</div>
+                    ) : foundItems.length === 0 ? (
+                      <div className="text-center p-8 text-gray-500">ここに検索結果が表示されます</div>
+                    ) : (
+                      <div className="text-center p-8 text-gray-500">絞り込み条件に一致する記事はありません</div>
+                    )
+                  }
+                />
+                {previewItem && (
+                  <PreviewPane
+                    item={previewItem}
+                    onClose={() => setPreviewUrl(null)}
+                    onPivot={handlePivot}
+                    accessTokens={{ qiita: settings.qiitaToken }}
+                  />
+                )}
+                <div id="status" className="flex justify-between text-xs text-gray-400 h-5 px-2">
+                    <span className={rateLimit?.remaining === 0 ? 'text-red-400' : ''}>{rateLimitText}</span>
+                    <span className="truncate ml-2" title={currentStatusText}>{currentStatusText}</span>
+                </div>
             </div>
-        </div>
+          </>
+        ) : activeTab === 'analytics' ? (
+          <AnalyticsPanel
+            items={foundItems}
+            label={resultLabel}
+            pinned={pinnedAnalytics}
+            onPin={setPinnedAnalytics}
+          />
+        ) : activeTab === 'watches' ? (
+          <WatchPanel
+            watches={watches}
+            onRun={handleRunWatch}
+            onUpdate={handleUpdateWatch}
+            onDelete={handleDeleteWatch}
+          />
+        ) : (
+          <ReadingListPanel
+            entries={readingList}
+            exportFormatter={exportFormatter}
+            exportTemplate={settings.exportTemplate}
+            onUpdate={(url, patch) => setReadingList(prev => updateReadingListEntry(prev, url, patch))}
+            onRemove={(urls) => setReadingList(prev => removeFromReadingList(prev, urls))}
+            onImport={handleImportReadingList}
+          />
+        )}
       </div>
     </div>
   );
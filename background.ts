@@ -1,9 +1,28 @@
 // Fix: Add a triple-slash directive to provide TypeScript with Chrome extension API types.
 /// <reference types="chrome" />
 
-// IMPORTANT: For the extension to work, you MUST rename this file from 'background.ts' to 'background.js'.
-
 // This script runs in the background and sets up the extension's behavior.
+// It is bundled by `vite build` into `background.js` (an ES module service worker).
+
+import type { Watch } from './types';
+import { getProviders, syncCustomProviders } from './services/providers';
+import { loadSettings } from './services/settings';
+import {
+  loadWatches,
+  modifyWatches,
+  subscribeWatches,
+  checkWatch,
+  applyWatchCheck,
+  countNewItems,
+  watchAlarmName,
+  watchIdFromAlarm,
+} from './services/watches';
+import { requestSearch } from './services/searchRequest';
+import { handleBackgroundFetches } from './services/fetchBackend';
+
+const CHECK_TIMEOUT_MS = 5 * 60 * 1000;
+const FIRST_CHECK_DELAY_MINUTES = 0.5; // Chrome's minimum alarm delay for packed extensions
+const CONTEXT_MENU_ID = 'search-selection';
 
 /**
  * Opens the side panel when the user clicks the extension's action icon in the toolbar.
@@ -19,8 +38,149 @@ function setupSidePanel() {
   }
 }
 
+/**
+ * Creates, reschedules or clears alarms so there is exactly one per watch,
+ * firing at the watch's interval.
+ */
+async function syncWatchAlarms(watches: Watch[]) {
+  const wanted = new Map(watches.map(watch => [watchAlarmName(watch.id), watch]));
+
+  for (const alarm of await chrome.alarms.getAll()) {
+    if (watchIdFromAlarm(alarm.name) === undefined) continue;
+    const watch = wanted.get(alarm.name);
+    if (watch && alarm.periodInMinutes === watch.intervalMinutes) {
+      wanted.delete(alarm.name); // Already scheduled
+    } else {
+      await chrome.alarms.clear(alarm.name);
+    }
+  }
+  for (const [name, watch] of wanted) {
+    // A new watch is checked as soon as Chrome allows (30 seconds) to record its baseline.
+    const delayInMinutes = watch.lastCheckedAt === undefined ? FIRST_CHECK_DELAY_MINUTES : watch.intervalMinutes;
+    await chrome.alarms.create(name, { delayInMinutes, periodInMinutes: watch.intervalMinutes });
+  }
+}
+
+/**
+ * Shows the number of unreviewed new articles on the toolbar icon.
+ */
+async function updateBadge(watches: Watch[]) {
+  const count = countNewItems(watches);
+  await chrome.action.setBadgeBackgroundColor({ color: '#0891b2' }); // cyan-600
+  await chrome.action.setBadgeText({ text: count === 0 ? '' : count > 99 ? '99+' : String(count) });
+}
+
+/**
+ * Renders the notification icon, since the extension ships no image assets.
+ * @returns A PNG data URL.
+ */
+async function notificationIconUrl(): Promise<string> {
+  const canvas = new OffscreenCanvas(128, 128);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#0891b2';
+  ctx.fillRect(0, 0, 128, 128);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 88px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('Q', 64, 70);
+  const bytes = new Uint8Array(await (await canvas.convertToBlob({ type: 'image/png' })).arrayBuffer());
+  return `data:image/png;base64,${btoa(String.fromCharCode(...bytes))}`;
+}
+
+/**
+ * Re-runs one watch and reports articles that appeared since the last check.
+ */
+async function runWatch(id: string) {
+  const watch = (await loadWatches()).find(w => w.id === id);
+  if (!watch) return;
+
+  const settings = await loadSettings();
+  syncCustomProviders(settings.customProviders);
+  // Service workers have no DOMParser, so providers that scrape HTML are skipped by checkWatch.
+  const providers = getProviders();
+  const signal = AbortSignal.timeout(CHECK_TIMEOUT_MS);
+  try {
+    const check = await checkWatch(watch, providers, signal, { qiita: settings.qiitaToken });
+    await modifyWatches(watches => watches.map(w => (w.id === id ? applyWatchCheck(w, check) : w)));
+
+    if (check.fresh.length > 0) {
+      const [first] = check.fresh;
+      chrome.notifications.create(watchAlarmName(id), {
+        type: 'basic',
+        iconUrl: await notificationIconUrl(),
+        title: `「${watch.name}」に新着記事 ${check.fresh.length}件`,
+        message: first.title ?? first.url,
+        contextMessage: '勝Qiitaサーチ',
+      });
+    }
+  } catch (error) {
+    console.error(`[Watch] Check failed for "${watch.name}":`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    await modifyWatches(watches => watches.map(w => (w.id === id ? { ...w, lastCheckedAt: Date.now(), lastError: message } : w)));
+  }
+}
+
+/**
+ * Opens the side panel and has it search for the given text.
+ */
+function openSearch(text: string, windowId: number) {
+  // sidePanel.open only works while the user gesture is active, so it must come before any await.
+  chrome.sidePanel.open({ windowId }).catch(error => console.error('Error opening side panel:', error));
+  requestSearch(text).catch(error => console.error('Error requesting search:', error));
+}
+
+/**
+ * Adds the "search selected text" context menu item and the `kq` omnibox keyword.
+ */
+function setupEntryPoints() {
+  chrome.runtime.onInstalled.addListener(() => {
+    chrome.contextMenus.create({
+      id: CONTEXT_MENU_ID,
+      title: '勝Qiitaサーチで検索',
+      contexts: ['selection'],
+    });
+  });
+
+  chrome.contextMenus.onClicked.addListener((info, tab) => {
+    if (info.menuItemId !== CONTEXT_MENU_ID || !info.selectionText || tab?.windowId === undefined) return;
+    openSearch(info.selectionText, tab.windowId);
+  });
+
+  chrome.omnibox.setDefaultSuggestion({ description: '勝Qiitaサーチで「%s」を検索' });
+  // Looking up the window would await past the user gesture, so the current window is passed as is.
+  chrome.omnibox.onInputEntered.addListener(text => openSearch(text, chrome.windows.WINDOW_ID_CURRENT));
+}
+
+function setupWatches() {
+  chrome.alarms.onAlarm.addListener(alarm => {
+    const id = watchIdFromAlarm(alarm.name);
+    if (id !== undefined) runWatch(id);
+  });
+
+  // Watches are edited from the side panel; keep alarms and the badge in step.
+  subscribeWatches(watches => {
+    syncWatchAlarms(watches).catch(error => console.error('Error scheduling watches:', error));
+    updateBadge(watches).catch(error => console.error('Error updating badge:', error));
+  });
+
+  chrome.notifications.onClicked.addListener(notificationId => {
+    // sidePanel.open needs the click's user gesture, so it must come before any await.
+    chrome.sidePanel.open({ windowId: chrome.windows.WINDOW_ID_CURRENT }).catch(error => console.error('Error opening side panel:', error));
+    chrome.notifications.clear(notificationId);
+  });
+
+  loadWatches().then(async watches => {
+    await syncWatchAlarms(watches);
+    await updateBadge(watches);
+  }).catch(error => console.error('Error restoring watches:', error));
+}
+
 try {
   setupSidePanel();
+  setupEntryPoints();
+  setupWatches();
+  handleBackgroundFetches();
 } catch (e) {
   console.error('An error occurred during extension initialization:', e);
 }
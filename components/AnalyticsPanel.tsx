@@ -0,0 +1,214 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { EnrichedItem } from '../types';
+import { analyticsToCsv, computeAnalytics } from '../services/analytics';
+import type { Bucket, ResultAnalytics } from '../services/analytics';
+import { downloadBlob, downloadExport, exportFormatterRegistry } from '../services/export';
+import { getProvider } from '../services/providers';
+import { DownloadIcon } from './Icons';
+
+export type PinnedAnalytics = {
+  label: string;
+  analytics: ResultAnalytics;
+};
+
+type AnalyticsPanelProps = {
+  items: EnrichedItem[];
+  label: string; // The query that produced the items
+  pinned: PinnedAnalytics | null;
+  onPin: (pinned: PinnedAnalytics | null) => void;
+};
+
+type Section = Exclude<keyof ResultAnalytics, 'total'>;
+
+const sectionLabels: { [K in Section]: string } = {
+  perMonth: '月別の記事数',
+  likes: 'いいね数の分布',
+  topAuthors: '投稿者 TOP10',
+  topTags: 'よく一緒に使われるタグ TOP10',
+  sources: 'ソース別の件数',
+};
+
+// Histograms are drawn as columns; rankings as horizontal bars.
+const columnSections = new Set<Section>(['perMonth', 'likes']);
+
+// Inline colors, since charts are also rendered to PNG where Tailwind classes don't apply.
+const SERIES_COLORS = ['#06b6d4', '#f59e0b']; // Current search, pinned search
+const TEXT_COLOR = '#9ca3af';
+const BACKGROUND_COLOR = '#111827';
+
+const CHART_WIDTH = 320;
+const COLUMN_CHART_HEIGHT = 120;
+const BAR_HEIGHT = 16;
+const LABEL_WIDTH = 120;
+
+const ColumnChart: React.FC<{ buckets: Bucket[]; color: string }> = ({ buckets, color }) => {
+  const max = Math.max(1, ...buckets.map(bucket => bucket.count));
+  const plotHeight = COLUMN_CHART_HEIGHT - 28;
+  const step = CHART_WIDTH / Math.max(1, buckets.length);
+  // Only every n-th label fits under dense histograms.
+  const labelEvery = Math.ceil(buckets.length / 6);
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${COLUMN_CHART_HEIGHT}`} className="w-full">
+      {buckets.map((bucket, i) => {
+        const height = (bucket.count / max) * plotHeight;
+        return (
+          <g key={bucket.label}>
+            <rect x={i * step + 1} y={12 + plotHeight - height} width={Math.max(1, step - 2)} height={height} fill={color}>
+              <title>{`${bucket.label}: ${bucket.count}件`}</title>
+            </rect>
+            {buckets.length <= 12 && bucket.count > 0 && (
+              <text x={i * step + step / 2} y={8 + plotHeight - height} textAnchor="middle" fontSize="9" fill={TEXT_COLOR}>{bucket.count}</text>
+            )}
+            {i % labelEvery === 0 && (
+              <text x={i * step + step / 2} y={COLUMN_CHART_HEIGHT - 4} textAnchor="middle" fontSize="9" fill={TEXT_COLOR}>{bucket.label}</text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const BarChart: React.FC<{ buckets: Bucket[]; color: string }> = ({ buckets, color }) => {
+  const max = Math.max(1, ...buckets.map(bucket => bucket.count));
+  const plotWidth = CHART_WIDTH - LABEL_WIDTH - 28;
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${Math.max(1, buckets.length) * BAR_HEIGHT}`} className="w-full">
+      {buckets.map((bucket, i) => {
+        const width = (bucket.count / max) * plotWidth;
+        const y = i * BAR_HEIGHT;
+        return (
+          <g key={bucket.label}>
+            <text x={LABEL_WIDTH - 4} y={y + BAR_HEIGHT - 4} textAnchor="end" fontSize="10" fill={TEXT_COLOR}>
+              {bucket.label.length > 20 ? `${bucket.label.slice(0, 19)}…` : bucket.label}
+            </text>
+            <rect x={LABEL_WIDTH} y={y + 2} width={Math.max(1, width)} height={BAR_HEIGHT - 4} fill={color}>
+              <title>{`${bucket.label}: ${bucket.count}件`}</title>
+            </rect>
+            <text x={LABEL_WIDTH + width + 4} y={y + BAR_HEIGHT - 4} fontSize="10" fill={TEXT_COLOR}>{bucket.count}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/**
+ * Renders an inline SVG chart to a PNG file at twice its drawn size.
+ * @param onError Called if the chart cannot be rendered.
+ */
+function downloadSvgAsPng(svg: SVGSVGElement, baseName: string, onError: (error: unknown) => void) {
+  const { width, height } = svg.viewBox.baseVal;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  const source = new XMLSerializer().serializeToString(clone);
+
+  const image = new Image();
+  image.onload = () => {
+    const scale = 2;
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(blob => (blob ? downloadBlob(blob, `${baseName}.png`) : onError(new Error('Canvas is empty'))), 'image/png');
+  };
+  image.onerror = error => onError(error);
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`;
+}
+
+const ChartCard: React.FC<{ title: string; fileName: string; children: React.ReactNode }> = ({ title, fileName, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [failed, setFailed] = useState<boolean>(false);
+  const handleDownload = () => {
+    const svg = ref.current?.querySelector('svg');
+    if (!svg) return;
+    setFailed(false);
+    downloadSvgAsPng(svg, fileName, error => {
+      console.error('Failed to render chart:', error);
+      setFailed(true);
+    });
+  };
+  return (
+    <div className="p-2 bg-gray-900 border border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs text-gray-400 font-semibold truncate">{title}</span>
+        <button onClick={handleDownload} title="PNGで保存" className="text-gray-500 hover:text-gray-300">
+          <DownloadIcon />
+        </button>
+      </div>
+      {failed && <p className="text-xs text-red-400 mb-1">PNGを作成できませんでした。</p>}
+      <div ref={ref}>{children}</div>
+    </div>
+  );
+};
+
+const displayBuckets = (section: Section, buckets: Bucket[]) =>
+  section === 'sources' ? buckets.map(bucket => ({ ...bucket, label: getProvider(bucket.label)?.displayName ?? bucket.label })) : buckets;
+
+const stamp = () => new Date().toISOString().slice(0, 10);
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ items, label, pinned, onPin }) => {
+  const analytics = useMemo(() => computeAnalytics(items), [items]);
+  const sets = [{ label, analytics }, ...(pinned ? [pinned] : [])];
+
+  const handleDownloadCsv = () => {
+    downloadExport(analyticsToCsv(sets, sectionLabels), exportFormatterRegistry.csv, `analytics-${stamp()}`);
+  };
+
+  if (items.length === 0 && !pinned) {
+    return <div className="text-center text-gray-500 text-sm py-8">検索すると、結果の傾向をここでグラフ表示します。</div>;
+  }
+
+  return (
+    <div className="flex-1 overflow-auto min-h-0 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {sets.map((set, i) => (
+          <span key={i} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: SERIES_COLORS[i] }} />
+            <span className="text-gray-200">{set.label || '(条件なし)'}</span>
+            <span className="text-gray-400">{set.analytics.total}件</span>
+          </span>
+        ))}
+        <div className="flex-1" />
+        {pinned ? (
+          <button onClick={() => onPin(null)} className="px-2 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-xs">比較をやめる</button>
+        ) : (
+          <button
+            onClick={() => onPin({ label, analytics })}
+            disabled={items.length === 0}
+            title="この結果を固定し、次の検索結果と並べて比較します"
+            className="px-2 py-1 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded text-xs"
+          >
+            固定して比較
+          </button>
+        )}
+        <button onClick={handleDownloadCsv} className="flex items-center gap-1 px-2 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-xs">
+          <DownloadIcon />
+          <span>CSV</span>
+        </button>
+      </div>
+      {pinned && <p className="text-xs text-gray-500">検索タブで別のキーワードを検索すると、固定した結果と並べて表示します。</p>}
+
+      {(Object.keys(sectionLabels) as Section[]).map(section => (
+        <div key={section} className={`grid gap-2 ${sets.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {sets.map((set, i) => {
+            const buckets = displayBuckets(section, set.analytics[section]);
+            const Chart = columnSections.has(section) ? ColumnChart : BarChart;
+            return (
+              <ChartCard key={i} title={sets.length > 1 ? `${sectionLabels[section]}（${set.label}）` : sectionLabels[section]} fileName={`${section}-${stamp()}`}>
+                {buckets.length > 0 ? <Chart buckets={buckets} color={SERIES_COLORS[i]} /> : <div className="text-xs text-gray-500 py-2 text-center">データがありません</div>}
+              </ChartCard>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
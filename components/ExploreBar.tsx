@@ -0,0 +1,48 @@
+import React from 'react';
+import type { ExploreMode, TagInfo } from '../types';
+import { describeExplore } from '../services/query';
+
+type ExploreBarProps = {
+  mode: ExploreMode;
+  tagInfo: TagInfo | null;
+  disabled: boolean; // While a search is running
+  onPivot: (mode: ExploreMode) => void;
+  onWatch: () => void;
+  onExit: () => void;
+};
+
+// Switches between the listings available for the same user.
+const userKinds: { kind: ExploreMode['kind']; label: string }[] = [
+  { kind: 'userItems', label: '投稿した記事' },
+  { kind: 'userStocks', label: 'ストック' },
+];
+
+const ExploreBar: React.FC<ExploreBarProps> = ({ mode, tagInfo, disabled, onPivot, onWatch, onExit }) => (
+  <div className="flex flex-wrap items-center gap-2 px-2 py-1.5 bg-gray-900 border border-cyan-800 rounded-lg text-sm">
+    {mode.kind === 'tagItems' && tagInfo?.iconUrl && <img src={tagInfo.iconUrl} alt="" className="w-5 h-5 rounded" />}
+    <span className="font-semibold text-cyan-300">{describeExplore(mode)}</span>
+    {mode.kind === 'tagItems' && tagInfo && (
+      <span className="text-xs text-gray-400">
+        フォロワー {tagInfo.followersCount.toLocaleString()} · 記事 {tagInfo.itemsCount.toLocaleString()}
+      </span>
+    )}
+    {mode.kind !== 'tagItems' &&
+      userKinds.map(({ kind, label }) => (
+        <button
+          key={kind}
+          onClick={() => onPivot({ kind, id: mode.id })}
+          disabled={disabled || mode.kind === kind}
+          className={`px-2 py-0.5 rounded text-xs ${mode.kind === kind ? 'bg-cyan-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300 disabled:text-gray-500'}`}
+        >
+          {label}
+        </button>
+      ))}
+    <div className="flex-1" />
+    <button onClick={onWatch} title="このユーザー・タグの新着記事を通知します" className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs">
+      ウォッチ
+    </button>
+    <button onClick={onExit} title="キーワード検索に戻る" className="text-gray-500 hover:text-gray-300 text-lg leading-none">×</button>
+  </div>
+);
+
+export default ExploreBar;
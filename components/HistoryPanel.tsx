@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import type { HistoryEntry } from '../types';
+import { describeSearch } from '../services/query';
+import { sortHistory } from '../services/history';
+import { PinIcon, PencilIcon, TrashIcon } from './Icons';
+
+type HistoryPanelProps = {
+  entries: HistoryEntry[];
+  onRun: (entry: HistoryEntry) => void;
+  onUpdate: (id: string, patch: Partial<Omit<HistoryEntry, 'id'>>) => void;
+  onDelete: (id: string) => void;
+};
+
+const describeEntry = (entry: HistoryEntry) => describeSearch(entry.params) || '(条件なし)';
+
+const HistoryRow: React.FC<{ entry: HistoryEntry } & Omit<HistoryPanelProps, 'entries'>> = ({ entry, onRun, onUpdate, onDelete }) => {
+  const [editing, setEditing] = useState<boolean>(false);
+  const [name, setName] = useState<string>(entry.name ?? '');
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    onUpdate(entry.id, { name: trimmed === '' ? undefined : trimmed });
+    setEditing(false);
+  };
+
+  return (
+    <li className="flex items-center gap-2 py-1.5 border-b border-gray-700 last:border-b-0">
+      <button
+        onClick={() => onUpdate(entry.id, { pinned: !entry.pinned })}
+        title={entry.pinned ? 'ピン留めを解除' : 'ピン留め'}
+        className={entry.pinned ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'}
+      >
+        <PinIcon filled={entry.pinned} />
+      </button>
+      <div className="flex-1 min-w-0">
+        {editing ? (
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitName();
+              if (e.key === 'Escape') setEditing(false);
+            }}
+            placeholder="名前（空欄で保存を解除）"
+            className="w-full bg-gray-900 border border-gray-600 rounded py-0.5 px-2 text-white text-sm"
+          />
+        ) : (
+          <button onClick={() => onRun(entry)} className="w-full text-left" title="この条件で再検索">
+            <div className="truncate text-cyan-400 hover:underline text-sm">{entry.name ?? describeEntry(entry)}</div>
+            <div className="truncate text-xs text-gray-500">
+              {entry.name && <span className="mr-2">{describeEntry(entry)}</span>}
+              {new Date(entry.searchedAt).toLocaleString('ja-JP')} · {entry.resultCount}件
+            </div>
+          </button>
+        )}
+      </div>
+      <button onClick={() => setEditing(true)} title="名前を付けて保存" className="text-gray-500 hover:text-gray-300">
+        <PencilIcon />
+      </button>
+      <button onClick={() => onDelete(entry.id)} title="削除" className="text-gray-500 hover:text-red-400">
+        <TrashIcon />
+      </button>
+    </li>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, ...handlers }) => {
+  const sorted = sortHistory(entries);
+  const saved = sorted.filter(entry => entry.name !== undefined);
+  const recent = sorted.filter(entry => entry.name === undefined);
+
+  return (
+    <div className="space-y-3 max-h-72 overflow-auto">
+      <fieldset className="p-3 border-2 border-gray-700 rounded-lg">
+        <legend className="px-2 text-gray-400 font-semibold text-sm">保存した検索</legend>
+        {saved.length === 0 ? (
+          <p className="text-xs text-gray-500">履歴の ✎ から名前を付けると、ここに保存されます。</p>
+        ) : (
+          <ul>{saved.map(entry => <HistoryRow key={entry.id} entry={entry} {...handlers} />)}</ul>
+        )}
+      </fieldset>
+      <fieldset className="p-3 border-2 border-gray-700 rounded-lg">
+        <legend className="px-2 text-gray-400 font-semibold text-sm">最近の検索</legend>
+        {recent.length === 0 ? (
+          <p className="text-xs text-gray-500">まだ検索履歴はありません。</p>
+        ) : (
+          <ul>{recent.map(entry => <HistoryRow key={entry.id} entry={entry} {...handlers} />)}</ul>
+        )}
+      </fieldset>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { EnrichedItem, ExploreMode } from '../types';
+import { getProvider } from '../services/providers';
+import { sanitizeHtml } from '../services/sanitize';
+import type { SanitizedHtml } from '../services/sanitize';
+import { indexItems } from '../services/fulltext';
+import SourceBadge from './SourceBadge';
+
+type PreviewPaneProps = {
+  item: EnrichedItem;
+  onClose: () => void;
+  onPivot: (mode: ExploreMode) => void; // Lists a tag's articles
+  accessTokens?: { [providerId: string]: string };
+};
+
+type PreviewState =
+  | { status: 'loading' }
+  | { status: 'ready'; body: SanitizedHtml; tags?: string[] }
+  | { status: 'error'; message: string };
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleDateString('ja-JP') : undefined);
+
+const PreviewPane: React.FC<PreviewPaneProps> = ({ item, onClose, onPivot, accessTokens }) => {
+  const [state, setState] = useState<PreviewState>({ status: 'loading' });
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const provider = getProvider(item.source);
+    if (!provider?.preview) {
+      setState({ status: 'error', message: 'このソースは本文プレビューに対応していません。' });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState({ status: 'loading' });
+    scrollRef.current?.scrollTo({ top: 0 });
+    provider
+      .preview(item, controller.signal, { accessToken: accessTokens?.[item.source] })
+      .then(preview => {
+        if (controller.signal.aborted) return;
+        const body = sanitizeHtml(preview.html, item.url);
+        setState({ status: 'ready', body, tags: preview.tags });
+        // Bodies loaded here make the article searchable offline.
+        indexItems([item], { [item.url]: body.text }).catch(error => console.warn('Failed to index article:', error));
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load preview:', error);
+        setState({ status: 'error', message: '本文を取得できませんでした。' });
+      });
+    return () => controller.abort();
+  }, [item.url]);
+
+  const tags = item.tags ?? (state.status === 'ready' ? state.tags : undefined) ?? [];
+  const metadata = [
+    item.authorName ?? item.author,
+    formatDate(item.publishedAt),
+    item.updatedAt && item.updatedAt !== item.publishedAt ? `更新 ${formatDate(item.updatedAt)}` : undefined,
+    item.likeCount !== undefined ? `いいね ${item.likeCount}` : undefined,
+    item.hatenaBookmarkCount !== undefined ? `はてブ ${item.hatenaBookmarkCount}` : undefined,
+    item.stockCount !== undefined ? `ストック ${item.stockCount}` : undefined,
+    item.readingMinutes !== undefined ? `約${item.readingMinutes}分` : undefined,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-gray-900 border-2 border-gray-600 rounded-lg">
+      <div className="p-2 border-b border-gray-700 space-y-1">
+        <div className="flex items-start gap-2">
+          <SourceBadge source={item.source} />
+          <a href={item.url} target="_blank" rel="noopener noreferrer" className="flex-1 min-w-0 text-sm font-semibold text-cyan-400 hover:underline">
+            {item.title ?? item.url}
+          </a>
+          <button onClick={onClose} title="プレビューを閉じる (Esc)" className="text-gray-500 hover:text-gray-300 text-lg leading-none">×</button>
+        </div>
+        <div className="text-xs text-gray-400">{metadata.join(' · ')}</div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => onPivot({ kind: 'tagItems', id: tag })}
+                title={`タグ「${tag}」の記事を一覧`}
+                className="px-1.5 rounded bg-gray-700 hover:bg-gray-600 text-[10px] text-gray-300"
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-auto min-h-0 p-3">
+        {state.status === 'loading' && <div className="animate-pulse text-center text-gray-400 text-sm">本文を取得しています...</div>}
+        {state.status === 'error' && <div className="text-center text-gray-500 text-sm">{state.message}</div>}
+        {state.status === 'ready' && (
+          <>
+            {state.body.headings.length > 1 && (
+              <details className="mb-3 text-xs">
+                <summary className="cursor-pointer text-gray-400 font-semibold">目次</summary>
+                <ul className="mt-1 space-y-0.5">
+                  {state.body.headings.map(heading => (
+                    <li key={heading.id} style={{ paddingLeft: `${(heading.level - 1) * 0.75}rem` }}>
+                      <button
+                        onClick={() => scrollRef.current?.querySelector(`#${heading.id}`)?.scrollIntoView({ behavior: 'smooth' })}
+                        className="text-left text-cyan-300 hover:underline"
+                      >
+                        {heading.text}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            <div className="preview-body text-sm text-gray-200" dangerouslySetInnerHTML={{ __html: state.body.html }} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPane;
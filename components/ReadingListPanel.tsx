@@ -0,0 +1,275 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { ExportFormatter, ReadingListEntry } from '../types';
+import { copyExport, downloadExport, exportFormatterRegistry } from '../services/export';
+import { exportReadingList } from '../services/readingList';
+import { CopyIcon, CheckIcon, DownloadIcon, PencilIcon, TrashIcon } from './Icons';
+import SourceBadge from './SourceBadge';
+
+type ReadFilter = 'all' | 'unread' | 'read';
+type ListSortKey = 'added' | 'published' | 'likes' | 'title';
+
+type ReadingListPanelProps = {
+  entries: ReadingListEntry[];
+  exportFormatter: ExportFormatter;
+  exportTemplate: string;
+  onUpdate: (url: string, patch: Partial<Omit<ReadingListEntry, 'url'>>) => void;
+  onRemove: (urls: string[]) => void;
+  onImport: (json: string) => number; // Returns the number of entries added; throws on invalid input
+};
+
+const readFilterLabels: { [K in ReadFilter]: string } = {
+  all: 'すべて',
+  unread: '未読',
+  read: '既読',
+};
+
+const sortLabels: { [K in ListSortKey]: string } = {
+  added: '追加日',
+  published: '公開日',
+  likes: 'いいね',
+  title: 'タイトル',
+};
+
+const compareEntries: { [K in ListSortKey]: (a: ReadingListEntry, b: ReadingListEntry) => number } = {
+  added: (a, b) => b.addedAt - a.addedAt,
+  published: (a, b) => (b.publishedAt ?? '').localeCompare(a.publishedAt ?? ''),
+  likes: (a, b) => (b.likeCount ?? -1) - (a.likeCount ?? -1),
+  title: (a, b) => (a.title ?? '').localeCompare(b.title ?? '', 'ja'),
+};
+
+const ReadingListRow: React.FC<{ entry: ReadingListEntry } & Pick<ReadingListPanelProps, 'onUpdate' | 'onRemove'>> = ({ entry, onUpdate, onRemove }) => {
+  const [editingNote, setEditingNote] = useState<boolean>(false);
+  const [note, setNote] = useState<string>(entry.note);
+  const [tagInput, setTagInput] = useState<string>('');
+
+  const commitNote = () => {
+    onUpdate(entry.url, { note: note.trim() });
+    setEditingNote(false);
+  };
+
+  const addTag = () => {
+    const tag = tagInput.trim();
+    if (tag && !entry.personalTags.includes(tag)) {
+      onUpdate(entry.url, { personalTags: [...entry.personalTags, tag] });
+    }
+    setTagInput('');
+  };
+
+  return (
+    <li className="py-2 border-b border-gray-700 last:border-b-0 space-y-1">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={entry.read}
+          onChange={() => onUpdate(entry.url, { read: !entry.read })}
+          title={entry.read ? '未読に戻す' : '既読にする'}
+          className="h-4 w-4 rounded bg-gray-600 border-gray-500 text-cyan-500 focus:ring-cyan-600"
+        />
+        <SourceBadge source={entry.source} />
+        <a
+          href={entry.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={entry.title}
+          className={`flex-1 min-w-0 truncate text-sm hover:underline ${entry.read ? 'text-gray-500' : 'text-cyan-400'}`}
+        >
+          {entry.title ?? entry.url}
+        </a>
+        <button onClick={() => setEditingNote(true)} title="メモを編集" className="text-gray-500 hover:text-gray-300">
+          <PencilIcon />
+        </button>
+        <button onClick={() => onRemove([entry.url])} title="リストから削除" className="text-gray-500 hover:text-red-400">
+          <TrashIcon />
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-1 pl-6 text-xs text-gray-500">
+        <span>
+          {entry.publishedAt ? new Date(entry.publishedAt).toLocaleDateString('ja-JP') : '-'} · いいね {entry.likeCount ?? '-'}
+        </span>
+        {entry.personalTags.map(tag => (
+          <button
+            key={tag}
+            onClick={() => onUpdate(entry.url, { personalTags: entry.personalTags.filter(t => t !== tag) })}
+            title="クリックでタグを外す"
+            className="px-1.5 rounded bg-cyan-900 text-cyan-200 hover:bg-red-900 hover:text-red-200"
+          >
+            #{tag}
+          </button>
+        ))}
+        <input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addTag();
+          }}
+          onBlur={addTag}
+          placeholder="+タグ"
+          className="w-16 bg-transparent border-b border-gray-700 focus:border-cyan-500 outline-none text-gray-300 placeholder-gray-600"
+        />
+      </div>
+      {editingNote ? (
+        <textarea
+          autoFocus
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={commitNote}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              setNote(entry.note);
+              setEditingNote(false);
+            }
+          }}
+          rows={3}
+          placeholder="メモ"
+          className="ml-6 w-[calc(100%-1.5rem)] bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white text-xs"
+        />
+      ) : entry.note && (
+        <p onClick={() => setEditingNote(true)} className="pl-6 text-xs text-gray-400 whitespace-pre-wrap cursor-text">{entry.note}</p>
+      )}
+    </li>
+  );
+};
+
+const ReadingListPanel: React.FC<ReadingListPanelProps> = ({ entries, exportFormatter, exportTemplate, onUpdate, onRemove, onImport }) => {
+  const [readFilter, setReadFilter] = useState<ReadFilter>('all');
+  const [tagFilter, setTagFilter] = useState<string>('');
+  const [sortKey, setSortKey] = useState<ListSortKey>('added');
+  const [copied, setCopied] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const allTags = useMemo(
+    () => Array.from(new Set<string>(entries.flatMap(entry => entry.personalTags))).sort((a, b) => a.localeCompare(b, 'ja')),
+    [entries]
+  );
+
+  const visibleEntries = useMemo(() => {
+    return entries
+      .filter(entry => readFilter === 'all' || entry.read === (readFilter === 'read'))
+      .filter(entry => !tagFilter || entry.personalTags.includes(tagFilter))
+      .sort(compareEntries[sortKey]);
+  }, [entries, readFilter, tagFilter, sortKey]);
+
+  const unreadCount = entries.filter(entry => !entry.read).length;
+  const stamp = () => new Date().toISOString().slice(0, 10);
+
+  const handleCopy = () => {
+    const text = exportFormatter.format(visibleEntries, { template: exportTemplate });
+    copyExport(text, exportFormatter.mimeType)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(error => console.error('Failed to copy:', error));
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const added = onImport(await file.text());
+      setMessage(`${added}件をインポートしました。`);
+    } catch (error) {
+      setMessage(error instanceof SyntaxError ? 'JSONとして読み込めませんでした。' : (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex-grow flex flex-col min-h-0 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={readFilter}
+          onChange={(e) => setReadFilter(e.target.value as ReadFilter)}
+          className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"
+        >
+          {(Object.keys(readFilterLabels) as ReadFilter[]).map(key => (
+            <option key={key} value={key}>{readFilterLabels[key]}</option>
+          ))}
+        </select>
+        <select
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value)}
+          className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"
+        >
+          <option value="">全タグ</option>
+          {allTags.map(tag => (
+            <option key={tag} value={tag}>#{tag}</option>
+          ))}
+        </select>
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as ListSortKey)}
+          className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"
+        >
+          {(Object.keys(sortLabels) as ListSortKey[]).map(key => (
+            <option key={key} value={key}>{sortLabels[key]}順</option>
+          ))}
+        </select>
+        <span className="ml-auto text-xs text-gray-400">未読 {unreadCount} / {entries.length}件</span>
+      </div>
+
+      <div className="flex-grow bg-gray-900 border-2 border-gray-600 rounded-lg overflow-auto min-h-0 px-3">
+        {visibleEntries.length === 0 ? (
+          <div className="text-center p-8 text-gray-500">
+            {entries.length === 0 ? '検索結果の 🔖 から記事を追加できます' : '条件に一致する記事はありません'}
+          </div>
+        ) : (
+          <ul>
+            {visibleEntries.map(entry => (
+              <ReadingListRow key={entry.url} entry={entry} onUpdate={onUpdate} onRemove={onRemove} />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={handleCopy}
+          disabled={visibleEntries.length === 0}
+          title={`表示中の記事を${exportFormatter.displayName}でコピー`}
+          className="flex items-center gap-1 px-3 py-1 bg-green-600 hover:bg-green-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg"
+        >
+          {copied ? <CheckIcon /> : <CopyIcon />}
+          {copied ? 'コピー完了' : 'コピー'}
+        </button>
+        <button
+          onClick={() => downloadExport(exportFormatter.format(visibleEntries, { template: exportTemplate }), exportFormatter, `reading-list-${stamp()}`)}
+          disabled={visibleEntries.length === 0}
+          title={`表示中の記事を${exportFormatter.displayName}で保存`}
+          className="flex items-center gap-1 px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg"
+        >
+          <DownloadIcon />
+          保存
+        </button>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => downloadExport(exportReadingList(entries), exportFormatterRegistry.json, `reading-list-backup-${stamp()}`)}
+            disabled={entries.length === 0}
+            title="タグ・メモ・既読状態を含めてバックアップ"
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-gray-200 rounded-lg text-xs"
+          >
+            JSONエクスポート
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs"
+          >
+            JSONインポート
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+      {message && <p className="text-xs text-gray-400">{message}</p>}
+    </div>
+  );
+};
+
+export default ReadingListPanel;
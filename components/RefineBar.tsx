@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import type { EnrichedItem, RefineState } from '../types';
+import { computeFacets, emptyRefine, isRefined } from '../services/refine';
+import type { FacetField } from '../services/refine';
+import { getProvider } from '../services/providers';
+
+type RefineBarProps = {
+  items: EnrichedItem[]; // All fetched items, used for facet counts and slider range
+  visibleCount: number;
+  state: RefineState;
+  onChange: (state: RefineState) => void;
+};
+
+const FACET_LIMIT = 12;
+
+const facetSections: { field: FacetField; label: string; format?: (value: string) => string }[] = [
+  { field: 'sources', label: 'ソース', format: value => getProvider(value)?.displayName ?? value },
+  { field: 'tags', label: 'タグ' },
+  { field: 'authors', label: '投稿者', format: value => `@${value}` },
+];
+
+const RefineBar: React.FC<RefineBarProps> = ({ items, visibleCount, state, onChange }) => {
+  const allFacets = useMemo(() => Object.fromEntries(
+    facetSections.map(({ field }) => [field, computeFacets(items, field)])
+  ), [items]);
+  // Selected values stay listed even when they fall out of the top, so they can be turned off.
+  const facets = useMemo(() => Object.fromEntries(
+    facetSections.map(({ field }) => {
+      const top = allFacets[field].slice(0, FACET_LIMIT);
+      const rest = state[field]
+        .filter(value => !top.some(facet => facet.value === value))
+        .map(value => allFacets[field].find(facet => facet.value === value) ?? { value, count: 0 });
+      return [field, [...top, ...rest]];
+    })
+  ), [allFacets, state]);
+  const maxLikes = useMemo(() => items.reduce((max, item) => Math.max(max, item.likeCount ?? 0), 0), [items]);
+
+  const toggleFacet = (field: FacetField, value: string) => {
+    const selected = state[field];
+    onChange({
+      ...state,
+      [field]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value],
+    });
+  };
+
+  return (
+    <details className="p-3 border-2 border-gray-700 rounded-lg text-sm" open={isRefined(state)}>
+      <summary className="text-gray-400 font-semibold cursor-pointer">
+        絞り込み {isRefined(state) && <span className="text-cyan-400 font-normal">({visibleCount} / {items.length}件)</span>}
+      </summary>
+      <div className="space-y-2 mt-3">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={state.text}
+            onChange={(e) => onChange({ ...state, text: e.target.value })}
+            placeholder="タイトルで絞り込み"
+            className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white placeholder-gray-500"
+          />
+          <button
+            onClick={() => onChange(emptyRefine)}
+            disabled={!isRefined(state)}
+            className="px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded"
+          >
+            クリア
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <span className="whitespace-nowrap">いいね {state.minLikes}以上</span>
+          <input
+            type="range"
+            min={0}
+            max={maxLikes}
+            value={Math.min(state.minLikes, maxLikes)}
+            onChange={(e) => onChange({ ...state, minLikes: Number(e.target.value) })}
+            className="flex-1 accent-cyan-500"
+          />
+        </label>
+
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <span>公開日</span>
+          <input type="date" value={state.from} onChange={(e) => onChange({ ...state, from: e.target.value })} className="bg-gray-900 border border-gray-600 rounded py-0.5 px-1 text-white"/>
+          <span>〜</span>
+          <input type="date" value={state.to} onChange={(e) => onChange({ ...state, to: e.target.value })} className="bg-gray-900 border border-gray-600 rounded py-0.5 px-1 text-white"/>
+        </div>
+
+        {facetSections.map(({ field, label, format }) => facets[field].length > 0 && (
+          <div key={field} className="flex flex-wrap items-center gap-1 text-xs">
+            <span className="text-gray-400 mr-1">{label}</span>
+            {facets[field].map(({ value, count }) => {
+              const active = state[field].includes(value);
+              return (
+                <button
+                  key={value}
+                  onClick={() => toggleFacet(field, value)}
+                  className={`px-2 py-0.5 rounded-full border ${active ? 'bg-cyan-600 border-cyan-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {format ? format(value) : value} <span className="text-gray-400">{count}</span>
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default RefineBar;
@@ -0,0 +1,561 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { ColumnLayout, EnrichedItem, ExploreMode, ScoreBreakdown, SnippetSegment, SortConfig, SortKey } from '../types';
+import { describeScore } from '../services/ranking';
+import { ArrowUpIcon, ArrowDownIcon, BookmarkIcon } from './Icons';
+import SourceBadge from './SourceBadge';
+
+export type ResultColumn = {
+  key: string;
+  label: string;
+  width: number; // Default width in pixels
+  sortKey?: SortKey;
+  leading?: boolean; // Shown before the title
+  className?: string;
+  render: (item: EnrichedItem, onPivot: (mode: ExploreMode) => void) => React.ReactNode;
+};
+
+type ResultsTableProps = {
+  items: EnrichedItem[]; // Sorted and refined
+  duplicates: Map<string, EnrichedItem[]>; // Other copies of each shown article, by its URL
+  scores: Map<string, ScoreBreakdown> | null; // Set while sorting by a composite score
+  snippets: Map<string, SnippetSegment[]>;
+  sortConfig: SortConfig;
+  onSort: (key: SortKey) => void;
+  selectedUrls: Set<string>;
+  onSelectionChange: (selectedUrls: Set<string>) => void;
+  copyLimit: number; // Default count for "select top N"
+  onCopy: () => void;
+  previewUrl: string | null;
+  onPreview: (url: string | null) => void;
+  readingListUrls: Set<string>;
+  onToggleReadingList: (item: EnrichedItem) => void;
+  onPivot: (mode: ExploreMode) => void;
+  layout: ColumnLayout;
+  onLayoutChange: (layout: ColumnLayout) => void;
+  placeholder?: React.ReactNode; // Shown instead of rows when there are none
+};
+
+const pivotLinkClass = 'hover:text-cyan-300 hover:underline';
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleDateString('ja-JP') : '-');
+
+export const resultColumns: ResultColumn[] = [
+  { key: 'source', label: 'ソース', width: 64, leading: true, className: 'text-center', render: item => <SourceBadge source={item.source} /> },
+  { key: 'published', label: '公開日', width: 100, sortKey: 'latest', className: 'text-gray-400', render: item => formatDate(item.publishedAt) },
+  { key: 'likes', label: 'いいね', width: 72, sortKey: 'likes', className: 'text-center', render: item => item.likeCount ?? '-' },
+  { key: 'bookmarks', label: 'はてブ', width: 72, sortKey: 'bookmarks', className: 'text-center text-gray-400', render: item => item.hatenaBookmarkCount ?? '-' },
+  {
+    key: 'author',
+    label: '投稿者',
+    width: 112,
+    className: 'text-center text-gray-400',
+    render: (item, onPivot) =>
+      item.author && item.source === 'qiita' ? (
+        <button title={`${item.authorName ?? item.author} の記事を一覧`} onClick={() => onPivot({ kind: 'userItems', id: item.author! })} className={pivotLinkClass}>
+          @{item.author}
+        </button>
+      ) : (
+        <span title={item.authorName}>{item.author ? `@${item.author}` : '-'}</span>
+      ),
+  },
+  {
+    key: 'tags',
+    label: 'タグ',
+    width: 160,
+    className: 'text-center text-gray-400',
+    render: (item, onPivot) =>
+      item.tags?.length ? (
+        <span title={item.tags.join(', ')}>
+          {item.tags.map((tag, i) => (
+            <React.Fragment key={tag}>
+              {i > 0 && ', '}
+              <button title={`タグ「${tag}」の記事を一覧`} onClick={() => onPivot({ kind: 'tagItems', id: tag })} className={pivotLinkClass}>{tag}</button>
+            </React.Fragment>
+          ))}
+        </span>
+      ) : (
+        '-'
+      ),
+  },
+  { key: 'stocks', label: 'ストック', width: 80, sortKey: 'stocks', className: 'text-center text-gray-400', render: item => item.stockCount ?? '-' },
+  { key: 'comments', label: 'コメント', width: 80, sortKey: 'comments', className: 'text-center text-gray-400', render: item => item.commentCount ?? '-' },
+  { key: 'updated', label: '更新日', width: 100, sortKey: 'updated', className: 'text-center text-gray-400', render: item => formatDate(item.updatedAt) },
+  {
+    key: 'readingTime',
+    label: '読了',
+    width: 64,
+    sortKey: 'readingTime',
+    className: 'text-center text-gray-400',
+    render: item => (item.readingMinutes !== undefined ? `${item.readingMinutes}分` : '-'),
+  },
+];
+
+export const shortcutHelp: [string, string][] = [
+  ['j / k', '次 / 前の記事をプレビュー（数字を先に押すとその行数だけ移動）'],
+  ['x', 'プレビュー中の記事の選択を切り替え'],
+  ['a', 'すべて選択 / 解除'],
+  ['i', '選択を反転'],
+  ['s', '上位N件だけを選択（例: 20s で上位20件、数字なしはコピー上限）'],
+  ['c', '選択した記事をコピー'],
+  ['o', 'プレビュー中の記事を新しいタブで開く'],
+  ['Esc', 'プレビューを閉じる'],
+  ['Shift+クリック', 'チェックボックスで範囲選択'],
+];
+
+// Row heights are fixed so the virtual scroll can place rows without measuring them.
+const ROW_HEIGHT = 37;
+const SNIPPET_HEIGHT = 34;
+const DUPLICATE_ROW_HEIGHT = 33;
+const HEADER_HEIGHT = 33;
+const OVERSCAN = 10; // Rows rendered beyond the viewport on each side
+const CHECKBOX_WIDTH = 40;
+const INDEX_WIDTH = 48;
+const SCORE_WIDTH = 64;
+const MIN_COLUMN_WIDTH = 40;
+const MIN_TITLE_WIDTH = 200;
+const COUNT_PREFIX_TIMEOUT_MS = 1500;
+
+type Row =
+  | { kind: 'item'; item: EnrichedItem; index: number }
+  | { kind: 'duplicate'; item: EnrichedItem };
+
+const rowHeight = (row: Row, snippets: Map<string, SnippetSegment[]>) =>
+  row.kind === 'duplicate' ? DUPLICATE_ROW_HEIGHT : snippets.has(row.item.url) ? ROW_HEIGHT + SNIPPET_HEIGHT : ROW_HEIGHT;
+
+// Index of the first row whose bottom edge is below `y`.
+function rowAt(offsets: number[], y: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] > y) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+const isTextInput = (target: HTMLElement) =>
+  target.isContentEditable ||
+  target.tagName === 'TEXTAREA' ||
+  target.tagName === 'SELECT' ||
+  (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'checkbox' && (target as HTMLInputElement).type !== 'radio');
+
+const ResultsTable: React.FC<ResultsTableProps> = ({
+  items,
+  duplicates,
+  scores,
+  snippets,
+  sortConfig,
+  onSort,
+  selectedUrls,
+  onSelectionChange,
+  copyLimit,
+  onCopy,
+  previewUrl,
+  onPreview,
+  readingListUrls,
+  onToggleReadingList,
+  onPivot,
+  layout,
+  onLayoutChange,
+  placeholder,
+}) => {
+  const [expandedUrls, setExpandedUrls] = useState<Set<string>>(new Set());
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [viewportHeight, setViewportHeight] = useState<number>(600);
+  const [draftWidths, setDraftWidths] = useState<{ [key: string]: number } | null>(null); // While dragging a column edge
+  const [showHelp, setShowHelp] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const anchorRef = useRef<string | null>(null); // URL of the last clicked checkbox, for shift-click ranges
+  const countRef = useRef<{ digits: string; at: number }>({ digits: '', at: 0 });
+
+  const widths = draftWidths ?? layout.widths;
+  const columnWidth = (column: ResultColumn) => widths[column.key] ?? column.width;
+  const shown = resultColumns.filter(column => layout.visible.includes(column.key));
+  const leading = shown.filter(column => column.leading);
+  const trailing = shown.filter(column => !column.leading);
+  const columnCount = 3 + shown.length + (scores ? 1 : 0);
+  const minTableWidth =
+    CHECKBOX_WIDTH + INDEX_WIDTH + MIN_TITLE_WIDTH + (scores ? SCORE_WIDTH : 0) + shown.reduce((sum, column) => sum + columnWidth(column), 0);
+
+  const rows = useMemo(
+    () =>
+      items.flatMap((item, index): Row[] => [
+        { kind: 'item', item, index },
+        ...(expandedUrls.has(item.url) ? (duplicates.get(item.url) ?? []).map((duplicate): Row => ({ kind: 'duplicate', item: duplicate })) : []),
+      ]),
+    [items, duplicates, expandedUrls]
+  );
+
+  const offsets = useMemo(() => {
+    const result = [0];
+    rows.forEach(row => result.push(result[result.length - 1] + rowHeight(row, snippets)));
+    return result;
+  }, [rows, snippets]);
+  const totalHeight = offsets[offsets.length - 1];
+
+  const top = Math.max(0, scrollTop - HEADER_HEIGHT);
+  const start = rows.length === 0 ? 0 : Math.max(0, rowAt(offsets, top) - OVERSCAN);
+  const end = rows.length === 0 ? 0 : Math.min(rows.length, rowAt(offsets, top + viewportHeight) + 1 + OVERSCAN);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const scrollToItem = (url: string) => {
+    const container = containerRef.current;
+    const rowIndex = rows.findIndex(row => row.kind === 'item' && row.item.url === url);
+    if (!container || rowIndex === -1) return;
+    const rowTop = offsets[rowIndex] + HEADER_HEIGHT;
+    const rowBottom = offsets[rowIndex + 1] + HEADER_HEIGHT;
+    if (rowTop - HEADER_HEIGHT < container.scrollTop) {
+      container.scrollTop = rowTop - HEADER_HEIGHT;
+    } else if (rowBottom > container.scrollTop + container.clientHeight) {
+      container.scrollTop = rowBottom - container.clientHeight;
+    }
+  };
+
+  const setSelected = (urls: string[], selected: boolean) => {
+    const next = new Set(selectedUrls);
+    urls.forEach(url => (selected ? next.add(url) : next.delete(url)));
+    onSelectionChange(next);
+  };
+
+  const handleCheckboxClick = (index: number, shiftKey: boolean) => {
+    const url = items[index].url;
+    const selected = !selectedUrls.has(url);
+    const anchor = items.findIndex(item => item.url === anchorRef.current);
+    if (shiftKey && anchor !== -1) {
+      const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+      setSelected(items.slice(from, to + 1).map(item => item.url), selected);
+    } else {
+      setSelected([url], selected);
+    }
+    anchorRef.current = url;
+  };
+
+  // Select-all acts on the shown rows only, so rows hidden by refinement keep their selection state.
+  const allSelected = items.length > 0 && items.every(item => selectedUrls.has(item.url));
+  const handleSelectAll = () => setSelected(items.map(item => item.url), !allSelected);
+
+  const handleInvertSelection = () => {
+    const next = new Set(selectedUrls);
+    items.forEach(item => (next.has(item.url) ? next.delete(item.url) : next.add(item.url)));
+    onSelectionChange(next);
+  };
+
+  const handleSelectTop = (count: number) => {
+    const next = new Set(selectedUrls);
+    items.forEach((item, index) => (index < count ? next.add(item.url) : next.delete(item.url)));
+    onSelectionChange(next);
+  };
+
+  const handleToggleExpanded = (url: string) => {
+    const next = new Set(expandedUrls);
+    if (next.has(url)) {
+      next.delete(url);
+    } else {
+      next.add(url);
+    }
+    setExpandedUrls(next);
+  };
+
+  // Keyboard shortcuts, listed in `shortcutHelp`. Digits typed first act as a count.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.ctrlKey || e.metaKey || e.altKey || isTextInput(target)) return;
+
+      const prefix = countRef.current;
+      if (/^[0-9]$/.test(e.key)) {
+        const stale = Date.now() - prefix.at > COUNT_PREFIX_TIMEOUT_MS;
+        countRef.current = { digits: (stale ? '' : prefix.digits) + e.key, at: Date.now() };
+        return;
+      }
+      const count = prefix.digits && Date.now() - prefix.at <= COUNT_PREFIX_TIMEOUT_MS ? parseInt(prefix.digits, 10) : undefined;
+      countRef.current = { digits: '', at: 0 };
+
+      const current = items.findIndex(item => item.url === previewUrl);
+      switch (e.key) {
+        case 'j':
+        case 'k': {
+          if (items.length === 0) return;
+          const step = (count ?? 1) * (e.key === 'j' ? 1 : -1);
+          const next = current === -1 ? 0 : Math.min(items.length - 1, Math.max(0, current + step));
+          onPreview(items[next].url);
+          scrollToItem(items[next].url);
+          break;
+        }
+        case 'x':
+          if (current === -1) return;
+          handleCheckboxClick(current, false);
+          break;
+        case 'a':
+          handleSelectAll();
+          break;
+        case 'i':
+          handleInvertSelection();
+          break;
+        case 's':
+          handleSelectTop(count ?? copyLimit);
+          break;
+        case 'c':
+          onCopy();
+          break;
+        case 'o':
+          if (!previewUrl) return;
+          window.open(previewUrl, '_blank', 'noopener');
+          break;
+        case 'Escape':
+          if (!previewUrl) return;
+          onPreview(null);
+          break;
+        case '?':
+          setShowHelp(prev => !prev);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const startResize = (column: ResultColumn, e: React.PointerEvent<HTMLSpanElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const handle = e.currentTarget;
+    handle.setPointerCapture(e.pointerId);
+    const startX = e.clientX;
+    const startWidth = columnWidth(column);
+    let latest = { ...layout.widths };
+
+    const handleMove = (move: PointerEvent) => {
+      latest = { ...layout.widths, [column.key]: Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + move.clientX - startX)) };
+      setDraftWidths(latest);
+    };
+    const handleUp = () => {
+      handle.removeEventListener('pointermove', handleMove);
+      handle.removeEventListener('pointerup', handleUp);
+      setDraftWidths(null);
+      onLayoutChange({ ...layout, widths: latest });
+    };
+    handle.addEventListener('pointermove', handleMove);
+    handle.addEventListener('pointerup', handleUp);
+  };
+
+  const sortIcon = (key: SortKey) =>
+    sortConfig.key === key && (sortConfig.direction === 'asc' ? <ArrowUpIcon /> : <ArrowDownIcon />);
+
+  const renderHeader = (column: ResultColumn) => {
+    const { sortKey } = column;
+    return (
+      <th
+        key={column.key}
+        scope="col"
+        className={`relative p-2 text-center ${sortKey ? 'cursor-pointer hover:bg-gray-600' : ''}`}
+        onClick={sortKey ? () => onSort(sortKey) : undefined}
+      >
+        <div className="flex items-center justify-center gap-1 truncate">
+          <span>{column.label}</span>
+          {sortKey && sortIcon(sortKey)}
+        </div>
+        <span
+          onPointerDown={e => startResize(column, e)}
+          onClick={e => e.stopPropagation()}
+          onDoubleClick={e => {
+            e.stopPropagation();
+            const { [column.key]: _reset, ...rest } = layout.widths;
+            onLayoutChange({ ...layout, widths: rest });
+          }}
+          title="ドラッグで幅を変更（ダブルクリックで元に戻す）"
+          className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-cyan-500/50"
+        />
+      </th>
+    );
+  };
+
+  const renderItemRow = (item: EnrichedItem, index: number) => {
+    const itemDuplicates = duplicates.get(item.url) ?? [];
+    const expanded = expandedUrls.has(item.url);
+    const score = scores?.get(item.url);
+    const snippet = snippets.get(item.url);
+    return (
+      <tr
+        key={item.url}
+        data-url={item.url}
+        style={{ height: snippet ? ROW_HEIGHT + SNIPPET_HEIGHT : ROW_HEIGHT }}
+        className={`border-b border-gray-700 hover:bg-gray-700/50 ${item.url === previewUrl ? 'bg-cyan-900/40' : 'bg-gray-800'}`}
+      >
+        <td className="p-2 text-center">
+          <input
+            type="checkbox"
+            checked={selectedUrls.has(item.url)}
+            onChange={() => undefined}
+            onClick={e => handleCheckboxClick(index, e.shiftKey)}
+            className="h-4 w-4 rounded bg-gray-600 border-gray-500 text-cyan-500 focus:ring-cyan-600"
+          />
+        </td>
+        <td className="p-2 text-center text-gray-400">{index + 1}</td>
+        {leading.map(column => (
+          <td key={column.key} className={`p-2 truncate ${column.className ?? ''}`}>{column.render(item, onPivot)}</td>
+        ))}
+        <td className="p-2 truncate">
+          {itemDuplicates.length > 0 && (
+            <button
+              onClick={() => handleToggleExpanded(item.url)}
+              title={`重複・転載 ${itemDuplicates.length}件`}
+              className="mr-1 px-1 rounded bg-gray-700 hover:bg-gray-600 text-[10px] text-gray-300"
+            >
+              {expanded ? '−' : '+'}{itemDuplicates.length}
+            </button>
+          )}
+          <button
+            onClick={() => onToggleReadingList(item)}
+            title={readingListUrls.has(item.url) ? 'リーディングリストから外す' : 'リーディングリストに追加'}
+            className={`mr-1 align-middle ${readingListUrls.has(item.url) ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <BookmarkIcon filled={readingListUrls.has(item.url)} />
+          </button>
+          {item.cached && (
+            <span className="mr-1 px-1 rounded bg-gray-700 text-[10px] text-gray-400" title="キャッシュから表示しています">キャッシュ</span>
+          )}
+          <a
+            href={item.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-cyan-400 hover:underline"
+            title={`${item.title ?? ''}（クリックでプレビュー、Ctrl+クリックで新しいタブ）`}
+            onClick={(e) => {
+              if (e.ctrlKey || e.metaKey || e.shiftKey) return;
+              e.preventDefault();
+              onPreview(item.url);
+            }}
+          >
+            {item.title ?? '-'}
+          </a>
+          {snippet && (
+            <div className="mt-0.5 text-xs leading-4 text-gray-400 whitespace-normal line-clamp-2">
+              {snippet.map((segment, i) =>
+                segment.match ? <mark key={i} className="bg-yellow-600/60 text-gray-100 rounded-sm">{segment.text}</mark> : <span key={i}>{segment.text}</span>
+              )}
+            </div>
+          )}
+        </td>
+        {scores && (
+          <td className="p-2 text-center text-gray-400 cursor-help" title={score ? describeScore(score) : undefined}>
+            {score ? score.total.toFixed(0) : '-'}
+          </td>
+        )}
+        {trailing.map(column => (
+          <td key={column.key} className={`p-2 truncate ${column.className ?? ''}`}>{column.render(item, onPivot)}</td>
+        ))}
+      </tr>
+    );
+  };
+
+  const renderDuplicateRow = (duplicate: EnrichedItem) => (
+    <tr key={`duplicate:${duplicate.url}`} style={{ height: DUPLICATE_ROW_HEIGHT }} className="bg-gray-900/60 border-b border-gray-700 text-xs">
+      <td className="p-2"></td>
+      <td className="p-2 text-center text-gray-500">↳</td>
+      {leading.map(column => (
+        <td key={column.key} className={`p-2 truncate ${column.className ?? ''}`}>{column.render(duplicate, onPivot)}</td>
+      ))}
+      <td className="p-2 truncate">
+        <a href={duplicate.url} target="_blank" rel="noopener noreferrer" className="text-cyan-300 hover:underline" title={duplicate.title}>
+          {duplicate.title ?? duplicate.url}
+        </a>
+      </td>
+      {scores && <td className="p-2"></td>}
+      {trailing.map(column => (
+        <td key={column.key} className={`p-2 truncate text-gray-500 ${column.className ?? ''}`}>{column.render(duplicate, onPivot)}</td>
+      ))}
+    </tr>
+  );
+
+  const spacer = (height: number, key: string) =>
+    height > 0 && (
+      <tr key={key} aria-hidden="true">
+        <td colSpan={columnCount} style={{ height, padding: 0 }} />
+      </tr>
+    );
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+      className="relative flex-1 bg-gray-900 border-2 border-gray-600 rounded-lg overflow-auto min-h-0"
+    >
+      <table className="w-full text-sm text-left text-gray-300 table-fixed" style={{ minWidth: minTableWidth }}>
+        <colgroup>
+          <col style={{ width: CHECKBOX_WIDTH }} />
+          <col style={{ width: INDEX_WIDTH }} />
+          {leading.map(column => <col key={column.key} style={{ width: columnWidth(column) }} />)}
+          <col />
+          {scores && <col style={{ width: SCORE_WIDTH }} />}
+          {trailing.map(column => <col key={column.key} style={{ width: columnWidth(column) }} />)}
+        </colgroup>
+        <thead className="text-xs text-cyan-400 uppercase bg-gray-700 sticky top-0 z-10" style={{ height: HEADER_HEIGHT }}>
+          <tr>
+            <th scope="col" className="p-2 text-center">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={handleSelectAll}
+                className="h-4 w-4 rounded bg-gray-600 border-gray-500 text-cyan-500 focus:ring-cyan-600"
+              />
+            </th>
+            <th scope="col" className="p-2 text-center">No.</th>
+            {leading.map(renderHeader)}
+            <th scope="col" className="p-2">
+              <div className="flex items-center justify-between">
+                <span>Title</span>
+                <button onClick={() => setShowHelp(prev => !prev)} title="キーボードショートカット (?)" className="text-gray-400 hover:text-gray-200 normal-case">⌨</button>
+              </div>
+            </th>
+            {scores && (
+              <th scope="col" className="p-2 text-center cursor-pointer hover:bg-gray-600" onClick={() => onSort(sortConfig.key)}>
+                <div className="flex items-center justify-center gap-1">
+                  <span>スコア</span>
+                  {sortConfig.direction === 'asc' ? <ArrowUpIcon /> : <ArrowDownIcon />}
+                </div>
+              </th>
+            )}
+            {trailing.map(renderHeader)}
+          </tr>
+        </thead>
+        <tbody>
+          {spacer(offsets[start], 'spacer-top')}
+          {rows.slice(start, end).map(row => (row.kind === 'item' ? renderItemRow(row.item, row.index) : renderDuplicateRow(row.item)))}
+          {spacer(totalHeight - offsets[end], 'spacer-bottom')}
+        </tbody>
+      </table>
+      {items.length === 0 && placeholder}
+      {showHelp && (
+        <div className="sticky bottom-0 left-0 m-2 p-2 bg-gray-800 border border-gray-600 rounded-lg text-xs text-gray-300 shadow-lg">
+          <div className="flex justify-between mb-1">
+            <span className="font-semibold text-gray-400">キーボードショートカット</span>
+            <button onClick={() => setShowHelp(false)} className="text-gray-500 hover:text-gray-300">×</button>
+          </div>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+            {shortcutHelp.map(([keys, description]) => (
+              <React.Fragment key={keys}>
+                <dt className="font-mono text-cyan-300">{keys}</dt>
+                <dd>{description}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultsTable;
@@ -0,0 +1,410 @@
+import React, { useEffect, useState } from 'react';
+import type { AppSettings, FetchLimits, FetchMode, GenericProviderConfig, Provider, ScoreSortKey, ScoreWeights } from '../types';
+import { clearCache } from '../services/cache';
+import { clearIndex, countIndexedDocs } from '../services/fulltext';
+import { defaultScoreWeights, scoreSignalLabels } from '../services/ranking';
+import { getProviders, isBuiltInProvider, validateGenericProviderConfig } from '../services/providers';
+
+const scoreModes: { key: ScoreSortKey; label: string }[] = [
+  { key: 'relevance', label: '関連度' },
+  { key: 'trending', label: 'トレンド' },
+];
+
+const fetchModes: { key: FetchMode; label: string; description: string }[] = [
+  { key: 'direct', label: '直接', description: '拡張機能のページから直接取得します（通常はこれで十分です）。' },
+  { key: 'background', label: 'バックグラウンド経由', description: '拡張機能のサービスワーカーに取得を任せます。直接取得が CORS で失敗する場合に。' },
+  { key: 'proxy', label: 'プロキシ経由', description: '指定したプロキシに ?url= で転送します。npm run dev で動かすときは npm run proxy を起動してください。' },
+];
+
+const customProviderExample: GenericProviderConfig[] = [
+  {
+    id: 'devto',
+    displayName: 'DEV',
+    searchUrl: 'https://dev.to/api/articles?tag={query}&page={page}',
+    format: 'json',
+    items: '',
+    fields: { title: 'title', url: 'url', publishedAt: 'published_at', likeCount: 'public_reactions_count', author: 'user.username' },
+    maxPages: 3,
+  },
+];
+
+/**
+ * Parses and validates the custom source definitions typed into the settings.
+ * @returns The configs, or the messages to show when they are unusable.
+ */
+function parseCustomProviders(text: string): { configs: GenericProviderConfig[]; errors: string[] } {
+  if (!text.trim()) return { configs: [], errors: [] };
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { configs: [], errors: ['JSONの形式が正しくありません。'] };
+  }
+  if (!Array.isArray(value)) return { configs: [], errors: ['ソースの定義は配列で指定してください。'] };
+
+  const errors = value.flatMap(validateGenericProviderConfig);
+  const ids = value.map(config => config?.id);
+  ids.forEach((id, i) => {
+    if (isBuiltInProvider(id)) errors.push(`${id}: 組み込みのソースと同じ id は使えません。`);
+    else if (ids.indexOf(id) !== i) errors.push(`${id}: id が重複しています。`);
+  });
+  return { configs: value as GenericProviderConfig[], errors };
+}
+
+// Duplicate grouping compares every pair of titles and reruns as each page
+// arrives, so larger result sets freeze the side panel.
+const MAX_TOTAL_LIMIT = 1000;
+
+type FetchLimitsForm = {
+  maxTotal: string;
+  depths: { [providerId: string]: string }; // Empty for an even share
+  stopBefore: string;
+};
+
+/**
+ * Parses and validates the fetch limits typed into the settings. Per-source
+ * depths may not exceed the total, nor what each source's API can page through.
+ * @returns The limits, or the messages to show when they are unusable.
+ */
+function parseFetchLimits(form: FetchLimitsForm, providers: Provider[]): { limits: FetchLimits; errors: string[] } {
+  const errors: string[] = [];
+  const maxTotal = Number(form.maxTotal);
+  const validTotal = Number.isInteger(maxTotal) && maxTotal >= 1 && maxTotal <= MAX_TOTAL_LIMIT;
+  if (!validTotal) {
+    errors.push(`合計の上限は 1〜${MAX_TOTAL_LIMIT} の整数で指定してください。`);
+  }
+
+  const depths: FetchLimits['depths'] = {};
+  for (const provider of providers) {
+    const text = form.depths[provider.id]?.trim();
+    if (!text) continue;
+    const depth = Number(text);
+    const max = Math.min(provider.maxDiscover ?? Infinity, validTotal ? maxTotal : MAX_TOTAL_LIMIT);
+    if (!Number.isInteger(depth) || depth < 1 || depth > max) {
+      errors.push(`${provider.displayName}: 取得件数は 1〜${max} の整数で指定してください（合計の上限以下）。`);
+    } else {
+      depths[provider.id] = depth;
+    }
+  }
+
+  const stopBefore = form.stopBefore.trim();
+  if (stopBefore && (!/^\d{4}-\d{2}-\d{2}$/.test(stopBefore) || isNaN(new Date(stopBefore).getTime()))) {
+    errors.push('打ち切る日付が正しくありません。');
+  }
+  return { limits: { maxTotal, depths, stopBefore }, errors };
+}
+
+/**
+ * Asks for access to the sites of custom sources; the manifest only lists them as optional.
+ * Must run inside the click handler, since Chrome requires a user gesture.
+ */
+function requestSiteAccess(configs: GenericProviderConfig[]) {
+  if (typeof chrome === 'undefined' || !chrome.permissions || configs.length === 0) return;
+  const origins = Array.from(new Set(configs.map(config => `${new URL(config.searchUrl).origin}/*`)));
+  chrome.permissions.request({ origins }).catch(error => console.warn('Site access was not granted:', error));
+}
+
+// The settings edited here. Saving writes only these, so changes made elsewhere
+// while the panel is open (copy limit, columns, export format) are kept.
+export type SettingsPanelFields = Pick<
+  AppSettings,
+  'qiitaToken' | 'cacheTtlMinutes' | 'cacheMaxEntries' | 'scoreWeights' | 'customProviders' | 'fetchMode' | 'proxyUrl' | 'fetchLimits'
+>;
+
+type SettingsPanelProps = {
+  settings: AppSettings;
+  onSave: (fields: SettingsPanelFields) => void;
+  onClose: () => void;
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [qiitaToken, setQiitaToken] = useState<string>(settings.qiitaToken);
+  const [cacheTtlMinutes, setCacheTtlMinutes] = useState<string>(String(settings.cacheTtlMinutes));
+  const [cacheMaxEntries, setCacheMaxEntries] = useState<string>(String(settings.cacheMaxEntries));
+  const [cacheCleared, setCacheCleared] = useState<boolean>(false);
+  const [indexedDocs, setIndexedDocs] = useState<number | null>(null);
+  const [scoreWeights, setScoreWeights] = useState<AppSettings['scoreWeights']>(settings.scoreWeights);
+  const [customProvidersText, setCustomProvidersText] = useState<string>(
+    settings.customProviders.length > 0 ? JSON.stringify(settings.customProviders, null, 2) : ''
+  );
+  const [customProviderErrors, setCustomProviderErrors] = useState<string[]>([]);
+  const [fetchMode, setFetchMode] = useState<FetchMode>(settings.fetchMode);
+  const [proxyUrl, setProxyUrl] = useState<string>(settings.proxyUrl);
+  const [proxyUrlError, setProxyUrlError] = useState<boolean>(false);
+  const [fetchLimitsForm, setFetchLimitsForm] = useState<FetchLimitsForm>({
+    maxTotal: String(settings.fetchLimits.maxTotal),
+    depths: Object.fromEntries(Object.entries(settings.fetchLimits.depths).map(([id, depth]) => [id, String(depth)])),
+    stopBefore: settings.fetchLimits.stopBefore,
+  });
+  const [fetchLimitErrors, setFetchLimitErrors] = useState<string[]>([]);
+  const providers = getProviders();
+
+  useEffect(() => {
+    countIndexedDocs().then(setIndexedDocs).catch(error => console.error('Failed to count indexed articles:', error));
+  }, []);
+
+  const handleWeightChange = (mode: ScoreSortKey, signal: keyof ScoreWeights, value: string) => {
+    const weight = Number(value);
+    if (!Number.isFinite(weight) || weight < 0) return;
+    setScoreWeights(prev => ({ ...prev, [mode]: { ...prev[mode], [signal]: weight } }));
+  };
+
+  const handleSave = () => {
+    const { configs, errors } = parseCustomProviders(customProvidersText);
+    setCustomProviderErrors(errors);
+    const invalidProxyUrl = fetchMode === 'proxy' && !/^https?:\/\/[^/]+/.test(proxyUrl.trim());
+    setProxyUrlError(invalidProxyUrl);
+    const { limits, errors: limitErrors } = parseFetchLimits(fetchLimitsForm, providers);
+    setFetchLimitErrors(limitErrors);
+    if (errors.length > 0 || invalidProxyUrl || limitErrors.length > 0) return;
+    requestSiteAccess(configs);
+
+    const ttl = Number(cacheTtlMinutes);
+    const maxEntries = Number(cacheMaxEntries);
+    onSave({
+      qiitaToken: qiitaToken.trim(),
+      cacheTtlMinutes: Number.isFinite(ttl) && ttl >= 0 ? Math.floor(ttl) : settings.cacheTtlMinutes,
+      cacheMaxEntries: Number.isFinite(maxEntries) && maxEntries >= 1 ? Math.floor(maxEntries) : settings.cacheMaxEntries,
+      scoreWeights,
+      customProviders: configs,
+      fetchMode,
+      proxyUrl: proxyUrl.trim(),
+      fetchLimits: limits,
+    });
+    onClose();
+  };
+
+  const handleClearCache = () => {
+    clearCache()
+      .then(() => setCacheCleared(true))
+      .catch(error => console.error('Failed to clear cache:', error));
+  };
+
+  const handleClearIndex = () => {
+    clearIndex()
+      .then(() => setIndexedDocs(0))
+      .catch(error => console.error('Failed to clear index:', error));
+  };
+
+  return (
+    <div className="space-y-3">
+      <fieldset className="p-3 border-2 border-gray-700 rounded-lg space-y-2">
+        <legend className="px-2 text-gray-400 font-semibold text-sm">Qiitaアクセストークン</legend>
+        <input
+          type="password"
+          value={qiitaToken}
+          onChange={(e) => setQiitaToken(e.target.value)}
+          placeholder="未設定（匿名: 60回/時）"
+          autoComplete="off"
+          className="w-full bg-gray-900 border-2 border-gray-600 focus:border-cyan-500 rounded-lg py-2 px-3 text-white placeholder-gray-500 text-sm"
+        />
+        <p className="text-xs text-gray-400">
+          トークンを設定すると、API の上限が 1時間あたり60回から1000回に増えます。
+          <a href="https://qiita.com/settings/applications" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline ml-1">
+            トークンを発行する（read_qiita スコープ）
+          </a>
+        </p>
+        <p className="text-xs text-gray-500">トークンはこのブラウザの拡張機能ストレージにのみ保存されます。</p>
+      </fieldset>
+
+      <fieldset className="p-3 border-2 border-gray-700 rounded-lg space-y-2">
+        <legend className="px-2 text-gray-400 font-semibold text-sm">取得方法</legend>
+        <div className="flex flex-wrap gap-4">
+          {fetchModes.map(mode => (
+            <label key={mode.key} className="flex items-center space-x-2 cursor-pointer text-sm">
+              <input type="radio" name="fetchMode" checked={fetchMode === mode.key} onChange={() => setFetchMode(mode.key)} className="h-4 w-4 bg-gray-700 border-gray-600 text-cyan-500 focus:ring-cyan-600"/>
+              <span>{mode.label}</span>
+            </label>
+          ))}
+        </div>
+        {fetchMode === 'proxy' && (
+          <input
+            type="url"
+            value={proxyUrl}
+            onChange={(e) => setProxyUrl(e.target.value)}
+            placeholder="http://localhost:8787/"
+            className={`w-full bg-gray-900 border-2 ${proxyUrlError ? 'border-red-500' : 'border-gray-600'} focus:border-cyan-500 rounded-lg py-1 px-3 text-white placeholder-gray-500 text-sm`}
+          />
+        )}
+        {proxyUrlError && <p className="text-xs text-red-400">プロキシのURLを http(s):// から入力してください。</p>}
+        <p className="text-xs text-gray-500">{fetchModes.find(mode => mode.key === fetchMode)?.description}</p>
+      </fieldset>
+
+      <fieldset className="p-3 border-2 border-gray-700 rounded-lg space-y-2">
+        <legend className="px-2 text-gray-400 font-semibold text-sm">取得件数</legend>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400">合計の上限</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_TOTAL_LIMIT}
+              value={fetchLimitsForm.maxTotal}
+              onChange={(e) => setFetchLimitsForm(prev => ({ ...prev, maxTotal: e.target.value }))}
+              className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400">この日より前の記事で打ち切る</span>
+            <input
+              type="date"
+              value={fetchLimitsForm.stopBefore}
+              onChange={(e) => setFetchLimitsForm(prev => ({ ...prev, stopBefore: e.target.value }))}
+              className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"
+            />
+          </label>
+          {providers.map(provider => (
+            <label key={provider.id} className="flex flex-col gap-1">
+              <span className="text-xs text-gray-400">{provider.displayName}</span>
+              <input
+                type="number"
+                min={1}
+                max={Math.min(provider.maxDiscover ?? Infinity, Number(fetchLimitsForm.maxTotal) || MAX_TOTAL_LIMIT)}
+                value={fetchLimitsForm.depths[provider.id] ?? ''}
+                onChange={(e) => setFetchLimitsForm(prev => ({ ...prev, depths: { ...prev.depths, [provider.id]: e.target.value } }))}
+                placeholder="自動"
+                className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white placeholder-gray-500"
+              />
+            </label>
+          ))}
+        </div>
+        {fetchLimitErrors.length > 0 && (
+          <ul className="text-xs text-red-400 list-disc pl-4">
+            {fetchLimitErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+        <p className="text-xs text-gray-500">
+          ソースごとの件数が空欄のソースは、合計の上限を検索対象の数で等分します。ソースごとの件数は合計の上限を超えられません。
+          日付を指定すると、新しい順に取得しているQiita・Zennはその日より前の記事に達した時点でページ送りをやめ、その日より前の記事は結果から除きます。
+        </p>
+      </fieldset>
+
+      <fieldset className="p-3 border-2 border-gray-700 rounded-lg space-y-2">
+        <legend className="px-2 text-gray-400 font-semibold text-sm">キャッシュ</legend>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400">有効期間（分、0で無効）</span>
+            <input type="number" min={0} value={cacheTtlMinutes} onChange={(e) => setCacheTtlMinutes(e.target.value)} className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"/>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400">最大件数</span>
+            <input type="number" min={1} value={cacheMaxEntries} onChange={(e) => setCacheMaxEntries(e.target.value)} className="bg-gray-900 border border-gray-600 rounded py-1 px-2 text-white"/>
+          </label>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleClearCache}
+            className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+          >
+            キャッシュを削除
+          </button>
+          {cacheCleared && <span className="text-xs text-green-400">削除しました</span>}
+        </div>
+        <p className="text-xs text-gray-500">取得したページはブラウザ内（IndexedDB）に保存され、同じ検索では再取得しません。古いものから自動で削除されます。</p>
+      </fieldset>
+
+      <fieldset className="p-3 border-2 border-gray-700 rounded-lg space-y-2">
+        <legend className="px-2 text-gray-400 font-semibold text-sm">ローカル全文索引</legend>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleClearIndex}
+            disabled={!indexedDocs}
+            className="px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded text-sm"
+          >
+            索引を削除
+          </button>
+          <span className="text-xs text-gray-400">{indexedDocs === null ? '' : `${indexedDocs}件の記事を索引済み`}</span>
+        </div>
+        <p className="text-xs text-gray-500">取得した記事のタイトルと本文（Qiitaの本文、プレビューで開いた記事）を索引し、「ローカル索引から検索」でオフライン検索できます。</p>
+      </fieldset>
+
+      <fieldset className="p-3 border-2 border-gray-700 rounded-lg space-y-2">
+        <legend className="px-2 text-gray-400 font-semibold text-sm">スコアの重み</legend>
+        <table className="w-full text-xs text-gray-300">
+          <thead>
+            <tr className="text-gray-400">
+              <th className="text-left font-normal"></th>
+              {scoreModes.map(mode => <th key={mode.key} className="font-normal">{mode.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(scoreSignalLabels) as (keyof ScoreWeights)[]).map(signal => (
+              <tr key={signal}>
+                <td className="py-0.5">{scoreSignalLabels[signal]}</td>
+                {scoreModes.map(mode => (
+                  <td key={mode.key} className="py-0.5 px-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={scoreWeights[mode.key][signal]}
+                      onChange={(e) => handleWeightChange(mode.key, signal, e.target.value)}
+                      className="w-full bg-gray-900 border border-gray-600 rounded py-0.5 px-1 text-white text-right"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() => setScoreWeights(defaultScoreWeights)}
+          className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+        >
+          初期値に戻す
+        </button>
+      </fieldset>
+
+      <fieldset className="p-3 border-2 border-gray-700 rounded-lg space-y-2">
+        <legend className="px-2 text-gray-400 font-semibold text-sm">カスタムソース</legend>
+        <textarea
+          value={customProvidersText}
+          onChange={(e) => setCustomProvidersText(e.target.value)}
+          placeholder="[]"
+          rows={8}
+          spellCheck={false}
+          className="w-full bg-gray-900 border-2 border-gray-600 focus:border-cyan-500 rounded-lg py-2 px-3 text-white placeholder-gray-500 text-xs font-mono"
+        />
+        {customProviderErrors.length > 0 && (
+          <ul className="text-xs text-red-400 list-disc pl-4">
+            {customProviderErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+        <button
+          onClick={() => setCustomProvidersText(JSON.stringify(customProviderExample, null, 2))}
+          className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+        >
+          例を入力
+        </button>
+        <p className="text-xs text-gray-500">
+          社内ブログなどを検索対象に追加できます。searchUrl の {'{query}'} と {'{page}'} が検索語とページ番号に置き換わります。
+          format が "json" なら items と fields にJSONパス（例: data.items、user.name）、"html" ならCSSセレクタ（属性は a@href のように指定）を書きます。
+          保存時に対象サイトへのアクセス許可を求めます。
+        </p>
+      </fieldset>
+
+      <div className="flex items-center justify-end space-x-3">
+        <button
+          onClick={() => setQiitaToken('')}
+          className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white font-bold rounded-lg shadow-md transition-all duration-300 text-sm"
+        >
+          クリア
+        </button>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white font-bold rounded-lg shadow-md transition-all duration-300 text-sm"
+        >
+          キャンセル
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-lg shadow-md transition-all duration-300 text-sm"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,16 @@
+import React from 'react';
+import { getProvider } from '../services/providers';
+
+const badgeStyles: { [source: string]: string } = {
+  qiita: 'bg-green-700 text-green-100',
+  zenn: 'bg-sky-700 text-sky-100',
+  note: 'bg-gray-200 text-gray-900',
+};
+
+const SourceBadge: React.FC<{ source: string }> = ({ source }) => (
+  <span className={`inline-block px-1.5 py-0.5 rounded text-[10px] font-bold ${badgeStyles[source] ?? 'bg-gray-600 text-gray-100'}`}>
+    {getProvider(source)?.displayName ?? source}
+  </span>
+);
+
+export default SourceBadge;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { Watch } from '../types';
+import { watchIntervalOptions } from '../services/watches';
+import { CheckIcon, SearchIcon, TrashIcon } from './Icons';
+import SourceBadge from './SourceBadge';
+
+type WatchPanelProps = {
+  watches: Watch[];
+  onRun: (watch: Watch) => void;
+  onUpdate: (id: string, patch: Partial<Omit<Watch, 'id'>>) => void;
+  onDelete: (id: string) => void;
+};
+
+const intervalLabel = (minutes: number) => (minutes < 60 ? `${minutes}分` : `${minutes / 60}時間`);
+
+const describeChecked = (watch: Watch) =>
+  watch.lastCheckedAt === undefined ? '初回確認待ち' : `${new Date(watch.lastCheckedAt).toLocaleString('ja-JP')} に確認`;
+
+const WatchRow: React.FC<{ watch: Watch } & Omit<WatchPanelProps, 'watches'>> = ({ watch, onRun, onUpdate, onDelete }) => {
+  const [expanded, setExpanded] = useState<boolean>(watch.newItems.length > 0);
+
+  return (
+    <li className="py-2 border-b border-gray-700 last:border-b-0 space-y-1">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          disabled={watch.newItems.length === 0}
+          title="新着記事を表示"
+          className={`px-1.5 rounded text-xs font-bold ${watch.newItems.length > 0 ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-500'}`}
+        >
+          {watch.newItems.length}
+        </button>
+        <div className="flex-1 min-w-0">
+          <div className="truncate text-sm text-gray-200" title={watch.name}>{watch.name || '(条件なし)'}</div>
+          <div className={`truncate text-xs ${watch.lastError ? 'text-red-400' : 'text-gray-500'}`} title={watch.lastError}>
+            {describeChecked(watch)}{watch.lastError && ` · ${watch.lastError}`}
+          </div>
+        </div>
+        <select
+          value={watch.intervalMinutes}
+          onChange={(e) => onUpdate(watch.id, { intervalMinutes: Number(e.target.value) })}
+          title="確認間隔"
+          className="bg-gray-900 border border-gray-600 rounded py-0.5 px-1 text-white text-xs"
+        >
+          {watchIntervalOptions.map(minutes => (
+            <option key={minutes} value={minutes}>{intervalLabel(minutes)}ごと</option>
+          ))}
+        </select>
+        <button onClick={() => onRun(watch)} title="この条件で検索" className="text-gray-500 hover:text-gray-300">
+          <SearchIcon />
+        </button>
+        <button
+          onClick={() => onUpdate(watch.id, { newItems: [] })}
+          disabled={watch.newItems.length === 0}
+          title="新着を確認済みにする"
+          className="text-gray-500 hover:text-gray-300 disabled:opacity-30"
+        >
+          <CheckIcon />
+        </button>
+        <button onClick={() => onDelete(watch.id)} title="ウォッチを削除" className="text-gray-500 hover:text-red-400">
+          <TrashIcon />
+        </button>
+      </div>
+      {expanded && watch.newItems.length > 0 && (
+        <ul className="pl-8 space-y-1">
+          {watch.newItems.map(item => (
+            <li key={item.url} className="flex items-center gap-2 text-xs">
+              <SourceBadge source={item.source} />
+              <a href={item.url} target="_blank" rel="noopener noreferrer" title={item.title} className="flex-1 min-w-0 truncate text-cyan-400 hover:underline">
+                {item.title ?? item.url}
+              </a>
+              <span className="text-gray-500 whitespace-nowrap">
+                {item.publishedAt ? new Date(item.publishedAt).toLocaleDateString('ja-JP') : '-'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+const WatchPanel: React.FC<WatchPanelProps> = ({ watches, ...handlers }) => (
+  <div className="flex-grow flex flex-col min-h-0 space-y-2">
+    <p className="text-xs text-gray-500">
+      検索タブの「ウォッチ」で登録した条件をバックグラウンドで定期的に再検索し、新着記事を通知します（Noteなど、ページを解析するソースは対象外です）。
+    </p>
+    <div className="flex-grow bg-gray-900 border-2 border-gray-600 rounded-lg overflow-auto min-h-0 px-3">
+      {watches.length === 0 ? (
+        <div className="text-center p-8 text-gray-500">ウォッチしている検索はありません</div>
+      ) : (
+        <ul>
+          {watches.map(watch => (
+            <WatchRow key={watch.id} watch={watch} {...handlers} />
+          ))}
+        </ul>
+      )}
+    </div>
+  </div>
+);
+
+export default WatchPanel;
@@ -0,0 +1,77 @@
+// Minimal CORS proxy for local development. Lets the side panel fetch Note,
+// Zenn and DuckDuckGo pages when it runs outside the extension (`npm run dev`).
+//
+//   npm run proxy            # listens on http://localhost:8787/
+//   PORT=9000 npm run proxy
+//   PROXY_ALLOW_HOSTS=dev.to,example.com npm run proxy   # extra hosts for custom sources
+//
+// Requests look like `GET /?url=<encoded target URL>`. Only GET is forwarded,
+// only to allowed hosts, and only the headers the providers send.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const ALLOWED_HOSTS = new Set([
+  'qiita.com',
+  'zenn.dev',
+  'note.com',
+  'html.duckduckgo.com',
+  'bookmark.api.hatena.ne.jp',
+  ...(process.env.PROXY_ALLOW_HOSTS ?? '').split(',').map(host => host.trim()).filter(Boolean),
+]);
+const FORWARDED_REQUEST_HEADERS = ['authorization', 'accept', 'accept-language'];
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after', 'rate-limit', 'rate-remaining', 'rate-reset', 'total-count'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': FORWARDED_REQUEST_HEADERS.join(', '),
+  'Access-Control-Expose-Headers': FORWARDED_RESPONSE_HEADERS.join(', '),
+};
+
+function reply(res, status, message) {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(message);
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    return res.end();
+  }
+  if (req.method !== 'GET') return reply(res, 405, 'Only GET is supported.');
+
+  let target;
+  try {
+    target = new URL(new URL(req.url ?? '/', 'http://localhost').searchParams.get('url') ?? '');
+  } catch {
+    return reply(res, 400, 'Pass the target as ?url=<encoded URL>.');
+  }
+  if (!['http:', 'https:'].includes(target.protocol) || !ALLOWED_HOSTS.has(target.hostname)) {
+    return reply(res, 403, `Host not allowed: ${target.hostname}`);
+  }
+
+  const headers = {};
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    if (req.headers[name]) headers[name] = req.headers[name];
+  }
+
+  try {
+    const upstream = await fetch(target, { headers, signal: AbortSignal.timeout(30_000) });
+    const responseHeaders = { ...corsHeaders };
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value !== null) responseHeaders[name] = value;
+    }
+    res.writeHead(upstream.status, responseHeaders);
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+    console.log(`${upstream.status} ${target.href}`);
+  } catch (error) {
+    console.error(`Failed ${target.href}:`, error);
+    reply(res, 502, `Upstream request failed: ${error instanceof Error ? error.message : error}`);
+  }
+});
+
+server.listen(PORT, 'localhost', () => {
+  console.log(`CORS proxy listening on http://localhost:${PORT}/ (hosts: ${Array.from(ALLOWED_HOSTS).join(', ')})`);
+});
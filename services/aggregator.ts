@@ -1,67 +1,144 @@
-import type { Provider, EnrichedItem, FoundItem } from '../types';
+import type { Provider, EnrichedItem, FoundItem, SearchQuery, RateLimitInfo, ExploreMode } from '../types';
+import { canonicalizeUrl } from './dedupe';
+import { withBookmarkCounts } from './hatena';
+import { isPublishedBefore } from '../utils';
+
+export type ProviderState = 'searching' | 'done' | 'error' | 'stopped';
+
+export type ProviderProgress = {
+  state: ProviderState;
+  pagesFetched: number;
+  itemsFound: number;
+  error?: string; // Why the provider stopped, when state is 'error'
+};
+
+export type SearchProgress = {
+  itemsFound: number;
+  providers: { [providerId: string]: ProviderProgress };
+};
+
+export type SearchUpdate = {
+  items: EnrichedItem[]; // Newly enriched items since the previous update
+  progress: SearchProgress;
+};
 
 export type RunOptions = {
   tokens: string[];
+  query?: SearchQuery;
   providers: Provider[];
   maxTotal: number;
+  depths?: { [providerId: string]: number }; // Items to find per provider; others split maxTotal evenly
+  stopBefore?: number; // Epoch milliseconds; older results are dropped and end paging early
   signal: AbortSignal;
+  accessTokens?: { [providerId: string]: string };
+  onRateLimit?: (providerId: string, info: RateLimitInfo) => void;
+  onUpdate?: (update: SearchUpdate) => void; // Streams results page by page
+  forceRefresh?: boolean; // Bypass the response cache
+  explore?: ExploreMode; // List a user's or tag's articles; pass only providers that support it
 };
 
+/**
+ * Searches all providers in parallel, enriching each page of results as soon as it arrives.
+ * Pass `onUpdate` to receive items incrementally; items already delivered are kept
+ * by the caller even if the search is later aborted.
+ * @returns A promise that resolves to every item found, in arrival order.
+ */
 export async function runSearch(opts: RunOptions): Promise<EnrichedItem[]> {
-  const { tokens, providers, maxTotal, signal } = opts;
+  const { tokens, query, providers, maxTotal, depths, stopBefore, signal, accessTokens, onRateLimit, onUpdate, forceRefresh, explore } = opts;
   
   if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
 
-  // 1) Discover URLs from all providers in parallel
-  const discovered: FoundItem[] = [];
-  const seenUrls = new Set<string>();
-  // Since it's only one provider now, this is simple.
-  const perProviderTarget = Math.ceil(maxTotal / Math.max(1, providers.length));
+  const results: EnrichedItem[] = [];
+  const seenUrls = new Set<string>(); // Canonical URLs, so tracking params or trailing slashes don't duplicate
+  const evenShare = Math.ceil(maxTotal / Math.max(1, providers.length));
+  // Items past maxTotal are dropped, so no provider pages further than that.
+  const targetFor = (p: Provider) => Math.min(depths?.[p.id] ?? evenShare, maxTotal, p.maxDiscover ?? Infinity);
+  const progress: SearchProgress = {
+    itemsFound: 0,
+    providers: Object.fromEntries(
+      providers.map(p => [p.id, { state: 'searching', pagesFetched: 0, itemsFound: 0 }])
+    ),
+  };
 
-  const searchPromises = providers.map(p => 
-    p.search({ tokens, maxDiscover: perProviderTarget }, signal)
-      .then(items => {
-        for (const item of items) {
-          if (signal.aborted) break;
-          if (!seenUrls.has(item.url)) {
-            seenUrls.add(item.url);
-            discovered.push(item);
-          }
-        }
-      })
-      .catch(err => {
-        if (err.name !== 'AbortError') console.error(`Error searching ${p.displayName}:`, err);
-      })
-  );
-  
-  await Promise.all(searchPromises);
-  if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
-  
-  // 2) Enrich items with metrics
-  let enriched: EnrichedItem[] = discovered;
-  const itemsToEnrichByProvider = new Map<Provider, FoundItem[]>();
-  for (const item of discovered) {
-    const provider = providers.find(p => p.id === item.source);
-    if (provider) {
-      if (!itemsToEnrichByProvider.has(provider)) {
-        itemsToEnrichByProvider.set(provider, []);
+  const emit = (items: EnrichedItem[]) => {
+    onUpdate?.({
+      items,
+      progress: { ...progress, providers: { ...progress.providers } },
+    });
+  };
+  const updateProvider = (id: string, patch: Partial<ProviderProgress>) => {
+    progress.providers[id] = { ...progress.providers[id], ...patch };
+  };
+
+  const runProvider = async (p: Provider) => {
+    // Enrichment runs one page at a time per provider, while the search keeps paging.
+    let enrichChain: Promise<void> = Promise.resolve();
+
+    const handleBatch = (batch: FoundItem[]) => {
+      const fresh: FoundItem[] = [];
+      for (const item of batch) {
+        const key = canonicalizeUrl(item.url);
+        if (seenUrls.has(key) || seenUrls.size >= maxTotal) continue;
+        seenUrls.add(key);
+        fresh.push(item);
+      }
+      if (fresh.length === 0) return;
+
+      enrichChain = enrichChain.then(async () => {
+        const enriched = await p.enrich(fresh, signal, { forceRefresh }).catch(err => {
+          if (err.name === 'AbortError') throw err;
+          console.error(`Error enriching ${p.displayName}:`, err);
+          return fresh; // Return non-enriched on error
+        })
+          // Providers that can't tell dates while paging are cut off once enriched.
+          .then(items => items.filter(item => !isPublishedBefore(item.publishedAt, stopBefore)))
+          .then(items => withBookmarkCounts(items, signal, forceRefresh));
+        if (signal.aborted) return;
+        results.push(...enriched);
+        progress.itemsFound = results.length;
+        updateProvider(p.id, { itemsFound: progress.providers[p.id].itemsFound + enriched.length });
+        emit(enriched);
+      });
+    };
+
+    try {
+      const items = await p.search({
+        tokens,
+        query,
+        maxDiscover: targetFor(p),
+        stopBefore,
+        accessToken: accessTokens?.[p.id],
+        forceRefresh,
+        explore,
+        onRateLimit: onRateLimit && (info => onRateLimit(p.id, info)),
+        onPage: page => {
+          updateProvider(p.id, { pagesFetched: progress.providers[p.id].pagesFetched + 1 });
+          handleBatch(page);
+        },
+      }, signal);
+      // Providers without paging support deliver everything here; paged ones are already seen.
+      if (progress.providers[p.id].pagesFetched === 0 && items.length > 0) {
+        updateProvider(p.id, { pagesFetched: 1 });
+      }
+      handleBatch(items);
+      await enrichChain;
+      updateProvider(p.id, { state: signal.aborted ? 'stopped' : 'done' });
+    } catch (err: any) {
+      if (err.name === 'AbortError') {
+        await enrichChain.catch(() => undefined); // An in-flight enrich step rejects with the same abort
+        updateProvider(p.id, { state: 'stopped' });
+      } else {
+        console.error(`Error searching ${p.displayName}:`, err);
+        await enrichChain.catch(() => undefined); // Keep the pages that did arrive
+        updateProvider(p.id, { state: 'error', error: err instanceof Error ? err.message : String(err) });
       }
-      itemsToEnrichByProvider.get(provider)!.push(item);
     }
-  }
+    emit([]);
+  };
 
-  const enrichedChunks = await Promise.all(
-    Array.from(itemsToEnrichByProvider.entries()).map(([provider, items]) =>
-      provider.enrich(items, signal).catch(err => {
-        if (err.name !== 'AbortError') console.error(`Error enriching ${provider.displayName}:`, err);
-        return items; // Return non-enriched on error
-      })
-    )
-  );
-  enriched = enrichedChunks.flat();
-  
+  await Promise.all(providers.map(runProvider));
   if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
 
-  // 3) Return all found and enriched items. Sorting is handled in the UI.
-  return enriched.slice(0, maxTotal);
-}
\ No newline at end of file
+  // Sorting is handled in the UI.
+  return results.slice(0, maxTotal);
+}
@@ -0,0 +1,106 @@
+import type { EnrichedItem } from '../types';
+import { escapeCsv } from './export';
+
+// Aggregates over a result set, for judging how widely a technology is written about.
+
+export type Bucket = {
+  label: string;
+  count: number;
+};
+
+export type ResultAnalytics = {
+  total: number;
+  perMonth: Bucket[]; // Oldest first, with empty months filled in
+  likes: Bucket[]; // Fixed ranges, so two result sets line up
+  topAuthors: Bucket[];
+  topTags: Bucket[];
+  sources: Bucket[];
+};
+
+const TOP_N = 10;
+const MAX_MONTHS = 36; // Older articles are folded into the first bucket
+
+// Upper bounds (inclusive) of the like-count ranges.
+const LIKE_RANGES: { max: number; label: string }[] = [
+  { max: 0, label: '0' },
+  { max: 9, label: '1-9' },
+  { max: 49, label: '10-49' },
+  { max: 99, label: '50-99' },
+  { max: 499, label: '100-499' },
+  { max: Infinity, label: '500+' },
+];
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+function countBy(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return counts;
+}
+
+const topBuckets = (counts: Map<string, number>, n = TOP_N): Bucket[] =>
+  Array.from(counts, ([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, n);
+
+function monthHistogram(items: EnrichedItem[]): Bucket[] {
+  const dates = items
+    .map(item => (item.publishedAt ? new Date(item.publishedAt) : undefined))
+    .filter((date): date is Date => date !== undefined && !isNaN(date.getTime()));
+  if (dates.length === 0) return [];
+
+  const counts = countBy(dates.map(monthKey));
+  const latest = new Date(Math.max(...dates.map(date => date.getTime())));
+  const earliest = new Date(Math.min(...dates.map(date => date.getTime())));
+  const months: string[] = [];
+  for (let d = new Date(latest.getFullYear(), latest.getMonth(), 1); months.length < MAX_MONTHS; d.setMonth(d.getMonth() - 1)) {
+    months.unshift(monthKey(d));
+    if (d.getFullYear() === earliest.getFullYear() && d.getMonth() === earliest.getMonth()) break;
+  }
+
+  const buckets = months.map(label => ({ label, count: counts.get(label) ?? 0 }));
+  const older = dates.filter(date => monthKey(date) < months[0]).length;
+  if (older > 0) buckets[0] = { label: `〜${months[0]}`, count: buckets[0].count + older };
+  return buckets;
+}
+
+/**
+ * Summarizes a result set: articles per month, the like-count distribution,
+ * the most frequent authors and tags, and the share of each source.
+ * @param items The items to summarize.
+ * @returns The aggregates.
+ */
+export function computeAnalytics(items: EnrichedItem[]): ResultAnalytics {
+  const liked = items.filter(item => item.likeCount !== undefined);
+  return {
+    total: items.length,
+    perMonth: monthHistogram(items),
+    likes: LIKE_RANGES.map((range, i) => ({
+      label: range.label,
+      count: liked.filter(item => item.likeCount! <= range.max && (i === 0 || item.likeCount! > LIKE_RANGES[i - 1].max)).length,
+    })),
+    topAuthors: topBuckets(countBy(items.flatMap(item => (item.author ? [`@${item.author} (${item.source})`] : [])))),
+    topTags: topBuckets(countBy(items.flatMap(item => Array.from(new Set((item.tags ?? []).map(tag => tag.toLowerCase())))))),
+    sources: topBuckets(countBy(items.map(item => item.source)), Infinity),
+  };
+}
+
+/**
+ * Writes the aggregates of one or more result sets as a single long-format CSV.
+ * @param sets The labeled aggregates, e.g. the current search and a pinned one.
+ * @param sectionLabels Display names of the sections.
+ * @returns CSV with the columns query, section, label, count.
+ */
+export function analyticsToCsv(
+  sets: { label: string; analytics: ResultAnalytics }[],
+  sectionLabels: { [K in Exclude<keyof ResultAnalytics, 'total'>]: string }
+): string {
+  const rows: (string | number)[][] = [['query', 'section', 'label', 'count']];
+  for (const { label, analytics } of sets) {
+    rows.push([label, 'total', '', analytics.total]);
+    for (const section of Object.keys(sectionLabels) as (keyof typeof sectionLabels)[]) {
+      analytics[section].forEach(bucket => rows.push([label, sectionLabels[section], bucket.label, bucket.count]));
+    }
+  }
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+}
@@ -0,0 +1,139 @@
+import { HTTP_CACHE_STORE, hasIndexedDb, openDb, promisifyRequest, transactionDone } from './idb';
+import { scheduledFetch } from './scheduler';
+
+type CacheEntry = {
+  url: string;
+  body: string;
+  status: number;
+  contentType: string;
+  storedAt: number; // Epoch milliseconds
+  accessedAt: number; // Epoch milliseconds, drives LRU eviction
+};
+
+export type CacheConfig = {
+  ttlMs: number;
+  maxEntries: number;
+};
+
+export type CachedFetchInit = {
+  signal: AbortSignal;
+  headers?: HeadersInit;
+  forceRefresh?: boolean; // Skip reading the cache, but still store the fresh response
+};
+
+// Responses served from the cache carry this header so callers can flag the items.
+export const CACHE_HEADER = 'X-Cache';
+
+let config: CacheConfig = {
+  ttlMs: 60 * 60 * 1000,
+  maxEntries: 2000,
+};
+
+/**
+ * Updates the cache limits, e.g. after the user changes settings.
+ * @param next The new TTL and size cap.
+ */
+export function configureCache(next: CacheConfig): void {
+  config = next;
+}
+
+/**
+ * Checks whether a response was served from the cache.
+ * @param res A response returned by `cachedFetch`.
+ * @returns True on a cache hit.
+ */
+export const isCachedResponse = (res: Response) => res.headers.get(CACHE_HEADER) === 'HIT';
+
+async function readEntry(url: string): Promise<CacheEntry | undefined> {
+  const db = await openDb();
+  const tx = db.transaction(HTTP_CACHE_STORE, 'readonly');
+  return promisifyRequest<CacheEntry | undefined>(tx.objectStore(HTTP_CACHE_STORE).get(url));
+}
+
+async function touchEntry(entry: CacheEntry): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(HTTP_CACHE_STORE, 'readwrite');
+  tx.objectStore(HTTP_CACHE_STORE).put({ ...entry, accessedAt: Date.now() });
+  await transactionDone(tx);
+}
+
+// Stores an entry, then drops the least recently used ones beyond the cap.
+async function writeEntry(entry: CacheEntry): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(HTTP_CACHE_STORE, 'readwrite');
+  const store = tx.objectStore(HTTP_CACHE_STORE);
+  store.put(entry);
+
+  const count = await promisifyRequest(store.count());
+  let excess = count - config.maxEntries;
+  if (excess > 0) {
+    const cursorRequest = store.index('accessedAt').openKeyCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      store.delete(cursor.primaryKey);
+      excess--;
+      cursor.continue();
+    };
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Deletes every cached response.
+ */
+export async function clearCache(): Promise<void> {
+  if (!hasIndexedDb()) return;
+  const db = await openDb();
+  const tx = db.transaction(HTTP_CACHE_STORE, 'readwrite');
+  tx.objectStore(HTTP_CACHE_STORE).clear();
+  await transactionDone(tx);
+}
+
+/**
+ * Fetches a URL through the IndexedDB response cache, keyed by URL.
+ * Fresh entries are served without a network request; misses go through the
+ * request scheduler and successful responses are stored. Cache failures never fail the request itself.
+ * @param url The URL to fetch.
+ * @param init The abort signal, request headers and cache options.
+ * @returns A promise that resolves to the response. Hits carry `X-Cache: HIT`.
+ */
+export async function cachedFetch(url: string, init: CachedFetchInit): Promise<Response> {
+  const { signal, headers, forceRefresh } = init;
+  if (!hasIndexedDb() || config.ttlMs <= 0) {
+    return scheduledFetch(url, { signal, headers });
+  }
+
+  if (!forceRefresh) {
+    try {
+      const entry = await readEntry(url);
+      if (entry && Date.now() - entry.storedAt < config.ttlMs) {
+        touchEntry(entry).catch(error => console.warn('[Cache] Failed to update access time:', error));
+        return new Response(entry.body, {
+          status: entry.status,
+          headers: { 'Content-Type': entry.contentType, [CACHE_HEADER]: 'HIT' },
+        });
+      }
+    } catch (error) {
+      console.warn(`[Cache] Failed to read ${url}:`, error);
+    }
+  }
+  if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+
+  const res = await scheduledFetch(url, { signal, headers });
+  if (!res.ok) return res;
+
+  const body = await res.text();
+  const now = Date.now();
+  writeEntry({
+    url,
+    body,
+    status: res.status,
+    contentType: res.headers.get('Content-Type') ?? 'text/plain',
+    storedAt: now,
+    accessedAt: now,
+  }).catch(error => console.warn(`[Cache] Failed to store ${url}:`, error));
+
+  // The body was consumed above, so hand back a copy with the original headers.
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
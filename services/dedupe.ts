@@ -0,0 +1,128 @@
+import type { EnrichedItem } from '../types';
+
+// Titles at least this similar (Jaccard over character bigrams) are treated as the same article.
+const TITLE_SIMILARITY_THRESHOLD = 0.8;
+const MIN_TITLE_LENGTH = 6; // Shorter titles are too generic to cluster on
+
+export type DuplicateGroups = {
+  primaries: EnrichedItem[]; // One representative per cluster, in input order
+  duplicates: Map<string, EnrichedItem[]>; // Other members, keyed by the primary's URL
+};
+
+// Query parameters added by share buttons and ad campaigns; other parameters may identify the article.
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|yclid|msclkid|mc_cid|mc_eid|igshid|ref_src)$/i;
+
+/**
+ * Normalizes an article URL so trivially different forms compare equal:
+ * drops the scheme, `www.`/`m.` prefixes, tracking parameters, fragment and trailing slash.
+ * Remaining query parameters are kept in sorted order.
+ * @param url The URL to canonicalize.
+ * @returns The canonical form, or the trimmed input if it is not a valid URL.
+ */
+export function canonicalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+    const path = decodeURI(parsed.pathname).replace(/\/+$/, '');
+    const params = Array.from(parsed.searchParams).filter(([key]) => !TRACKING_PARAMS.test(key));
+    params.sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    return query ? `${host}${path}?${query}` : `${host}${path}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * Reduces a title to comparable characters: NFKC (full-width to half-width),
+ * lower case, and no whitespace or punctuation. Works for both Japanese and English.
+ */
+function normalizeTitle(title: string): string {
+  return title.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+function shingles(text: string): Set<string> {
+  const chars = Array.from(text);
+  const result = new Set<string>();
+  for (let i = 0; i < chars.length - 1; i++) {
+    result.add(chars[i] + chars[i + 1]);
+  }
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let intersection = 0;
+  for (const s of a) {
+    if (b.has(s)) intersection++;
+  }
+  const union = a.size + b.size - intersection;
+  return union === 0 ? 0 : intersection / union;
+}
+
+// Prefer the copy with the most likes as the row shown in the table.
+const likesOf = (item: EnrichedItem) => item.likeCount ?? -1;
+
+/**
+ * Clusters items that are the same article: identical canonical URLs, or
+ * near-identical titles (e.g. cross-posted to Qiita and Zenn).
+ * @param items The items to group.
+ * @returns The representative of each cluster and the remaining members.
+ */
+export function groupDuplicates(items: EnrichedItem[]): DuplicateGroups {
+  // Union-find over item indices.
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[rootB] = rootA;
+  };
+
+  const byCanonicalUrl = new Map<string, number>();
+  items.forEach((item, i) => {
+    const key = canonicalizeUrl(item.url);
+    const existing = byCanonicalUrl.get(key);
+    if (existing === undefined) {
+      byCanonicalUrl.set(key, i);
+    } else {
+      union(existing, i);
+    }
+  });
+
+  const titleShingles = items.map(item => {
+    const normalized = normalizeTitle(item.title ?? '');
+    return normalized.length >= MIN_TITLE_LENGTH ? shingles(normalized) : null;
+  });
+  for (let i = 0; i < items.length; i++) {
+    const a = titleShingles[i];
+    if (!a) continue;
+    for (let j = i + 1; j < items.length; j++) {
+      const b = titleShingles[j];
+      // Sizes bound the best possible Jaccard score, which skips most pairs cheaply.
+      if (!b || Math.min(a.size, b.size) / Math.max(a.size, b.size) < TITLE_SIMILARITY_THRESHOLD) continue;
+      if (find(i) !== find(j) && jaccard(a, b) >= TITLE_SIMILARITY_THRESHOLD) union(i, j);
+    }
+  }
+
+  const clusters = new Map<number, EnrichedItem[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    const members = clusters.get(root);
+    if (members) {
+      members.push(item);
+    } else {
+      clusters.set(root, [item]);
+    }
+  });
+
+  const primaries: EnrichedItem[] = [];
+  const duplicates = new Map<string, EnrichedItem[]>();
+  for (const members of clusters.values()) {
+    const primary = members.reduce((best, item) => (likesOf(item) > likesOf(best) ? item : best));
+    primaries.push(primary);
+    if (members.length > 1) {
+      duplicates.set(primary.url, members.filter(item => item !== primary));
+    }
+  }
+  return { primaries, duplicates };
+}
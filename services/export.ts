@@ -0,0 +1,196 @@
+import type { EnrichedItem, ExportFormatter, ExportOptions } from '../types';
+
+// Columns written by the CSV and JSON exports, in order. `raw` is deliberately left out.
+const EXPORT_FIELDS: (keyof EnrichedItem)[] = [
+  'title', 'url', 'source', 'author', 'authorName', 'tags', 'publishedAt', 'updatedAt',
+  'likeCount', 'hatenaBookmarkCount', 'stockCount', 'commentCount', 'viewCount', 'readingMinutes', 'rank', 'snippet',
+];
+
+const formatDate = (iso?: string) => (iso ? iso.slice(0, 10) : '');
+
+const escapeMarkdown = (text: string) => text.replace(/([\[\]|\\])/g, '\\$1');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Arrays (tags) are joined with spaces so they stay in a single CSV cell.
+const fieldText = (value: unknown) => (Array.isArray(value) ? value.join(' ') : String(value));
+
+export function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = fieldText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Fills a per-item template such as `- [{title}]({url}) ({likeCount}❤)`.
+ * Supports every exported field plus `{date}` (YYYY-MM-DD) and `{index}` (1-based).
+ * Unknown placeholders are left as-is.
+ * @param template The template string.
+ * @param item The item to render.
+ * @param index The item's 0-based position in the export.
+ * @returns The rendered line.
+ */
+export function renderTemplate(template: string, item: EnrichedItem, index: number): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    if (key === 'index') return String(index + 1);
+    if (key === 'date') return formatDate(item.publishedAt);
+    if (!(EXPORT_FIELDS as string[]).includes(key)) return placeholder;
+    const value = item[key as keyof EnrichedItem];
+    return value === undefined || value === null ? '-' : fieldText(value);
+  });
+}
+
+const urlsFormatter: ExportFormatter = {
+  id: 'urls',
+  displayName: 'URLのみ',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  format: items => items.map(item => item.url).join('\n'),
+};
+
+const markdownListFormatter: ExportFormatter = {
+  id: 'markdown-list',
+  displayName: 'Markdown リスト',
+  extension: 'md',
+  mimeType: 'text/markdown',
+  format: items => items
+    .map(item => `- [${escapeMarkdown(item.title ?? item.url)}](${item.url})`)
+    .join('\n'),
+};
+
+const markdownTableFormatter: ExportFormatter = {
+  id: 'markdown-table',
+  displayName: 'Markdown 表',
+  extension: 'md',
+  mimeType: 'text/markdown',
+  format: items => [
+    '| No. | タイトル | ソース | 公開日 | いいね |',
+    '| ---: | --- | --- | --- | ---: |',
+    ...items.map((item, i) =>
+      `| ${i + 1} | [${escapeMarkdown(item.title ?? item.url)}](${item.url}) | ${item.source} | ${formatDate(item.publishedAt)} | ${item.likeCount ?? '-'} |`
+    ),
+  ].join('\n'),
+};
+
+const csvFormatter: ExportFormatter = {
+  id: 'csv',
+  displayName: 'CSV',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  format: items => [
+    EXPORT_FIELDS.join(','),
+    ...items.map(item => EXPORT_FIELDS.map(field => escapeCsv(item[field])).join(',')),
+  ].join('\r\n'),
+};
+
+const jsonFormatter: ExportFormatter = {
+  id: 'json',
+  displayName: 'JSON',
+  extension: 'json',
+  mimeType: 'application/json',
+  format: items => JSON.stringify(
+    items.map(item => Object.fromEntries(EXPORT_FIELDS.map(field => [field, item[field]]))),
+    null,
+    2
+  ),
+};
+
+const htmlFormatter: ExportFormatter = {
+  id: 'html',
+  displayName: 'HTML',
+  extension: 'html',
+  mimeType: 'text/html',
+  format: items => [
+    '<ul>',
+    ...items.map(item => {
+      const meta = [item.source, formatDate(item.publishedAt), item.likeCount !== undefined ? `${item.likeCount} likes` : '']
+        .filter(Boolean)
+        .join(', ');
+      return `  <li><a href="${escapeHtml(item.url)}">${escapeHtml(item.title ?? item.url)}</a> (${escapeHtml(meta)})</li>`;
+    }),
+    '</ul>',
+  ].join('\n'),
+};
+
+// Scrapbox uses `[title url]` links; a leading space makes each line a bullet.
+const scrapboxFormatter: ExportFormatter = {
+  id: 'scrapbox',
+  displayName: 'Scrapbox',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  format: items => items
+    .map(item => (item.title ? ` [${item.title.replace(/[\[\]]/g, '')} ${item.url}]` : ` [${item.url}]`))
+    .join('\n'),
+};
+
+const templateFormatter: ExportFormatter = {
+  id: 'template',
+  displayName: 'テンプレート',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  format: (items, options: ExportOptions) => items
+    .map((item, i) => renderTemplate(options.template, item, i))
+    .join('\n'),
+};
+
+export const allExportFormatters: ExportFormatter[] = [
+  urlsFormatter,
+  markdownListFormatter,
+  markdownTableFormatter,
+  csvFormatter,
+  jsonFormatter,
+  htmlFormatter,
+  scrapboxFormatter,
+  templateFormatter,
+];
+
+export const exportFormatterRegistry: { [key: string]: ExportFormatter } = Object.fromEntries(
+  allExportFormatters.map(formatter => [formatter.id, formatter])
+);
+
+/**
+ * Copies exported text to the clipboard. HTML is also written as rich text
+ * so it pastes as links into editors like Notion.
+ * @param text The exported text.
+ * @param mimeType The formatter's MIME type.
+ */
+export async function copyExport(text: string, mimeType: string): Promise<void> {
+  if (mimeType === 'text/html' && typeof ClipboardItem !== 'undefined') {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/html': new Blob([text], { type: 'text/html' }),
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+      }),
+    ]);
+    return;
+  }
+  await navigator.clipboard.writeText(text);
+}
+
+/**
+ * Saves exported text as a file via a temporary download link.
+ * @param text The exported text.
+ * @param formatter The formatter that produced the text.
+ * @param baseName The file name without extension.
+ */
+export function downloadExport(text: string, formatter: ExportFormatter, baseName: string): void {
+  // Prepend a BOM to CSV so Excel detects UTF-8 and shows Japanese titles correctly.
+  const content = formatter.extension === 'csv' ? `\uFEFF${text}` : text;
+  downloadBlob(new Blob([content], { type: `${formatter.mimeType};charset=utf-8` }), `${baseName}.${formatter.extension}`);
+}
+
+/**
+ * Saves a blob as a file via a temporary download link.
+ * @param blob The file contents.
+ * @param fileName The file name, including the extension.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download before the browser has started it.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,122 @@
+/// <reference types="chrome" />
+import type { FetchMode } from '../types';
+
+// Every provider request ends up here, so one setting decides how pages are
+// fetched: straight from the page, through the extension's service worker, or
+// through a CORS proxy such as `scripts/cors-proxy.mjs` when the panel runs
+// outside the extension (e.g. `npm run dev`).
+
+export type FetchBackendConfig = {
+  mode: FetchMode;
+  proxyUrl: string; // Used in 'proxy' mode; the target is passed as the `url` query parameter
+};
+
+export type BackendFetchInit = {
+  signal: AbortSignal;
+  headers?: HeadersInit;
+};
+
+const BACKGROUND_FETCH_MESSAGE = 'backgroundFetch';
+
+type BackgroundFetchRequest = {
+  type: typeof BACKGROUND_FETCH_MESSAGE;
+  url: string;
+  headers: [string, string][];
+};
+
+type BackgroundFetchReply =
+  | { ok: true; status: number; statusText: string; headers: [string, string][]; body: string }
+  | { ok: false; error: string };
+
+let config: FetchBackendConfig = { mode: 'direct', proxyUrl: '' };
+
+/**
+ * Switches the fetch backend, e.g. after the user changes settings.
+ * @param next The mode and proxy URL.
+ */
+export function configureFetchBackend(next: FetchBackendConfig): void {
+  config = next;
+}
+
+/**
+ * Builds the proxy request URL for a target URL.
+ * @param proxyUrl The proxy endpoint, e.g. `http://localhost:8787/`.
+ * @param url The URL to fetch through it.
+ * @returns The proxied URL.
+ */
+export function proxiedUrl(proxyUrl: string, url: string): string {
+  const target = new URL(proxyUrl);
+  target.searchParams.set('url', url);
+  return target.href;
+}
+
+/**
+ * Asks the service worker to fetch a URL and rebuilds its response.
+ * Aborting stops waiting for the reply; the worker's request runs to completion.
+ */
+function fetchInBackground(url: string, init: BackendFetchInit): Promise<Response> {
+  if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) {
+    return Promise.reject(new Error('Background fetch is only available inside the extension.'));
+  }
+  const request: BackgroundFetchRequest = {
+    type: BACKGROUND_FETCH_MESSAGE,
+    url,
+    headers: Array.from(new Headers(init.headers).entries()),
+  };
+
+  return new Promise<Response>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+    if (init.signal.aborted) return onAbort();
+    init.signal.addEventListener('abort', onAbort, { once: true });
+
+    chrome.runtime
+      .sendMessage<BackgroundFetchRequest, BackgroundFetchReply>(request)
+      .then(reply => {
+        if (!reply) throw new Error('The service worker did not answer the fetch request.');
+        if ('error' in reply) throw new Error(reply.error);
+        resolve(new Response(reply.body, { status: reply.status, statusText: reply.statusText, headers: reply.headers }));
+      })
+      .catch(reject)
+      .finally(() => init.signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Fetches a URL with the configured backend. Callers get a plain `Response`
+ * whatever the mode, so caching and retries work the same way.
+ * @param url The URL to fetch.
+ * @param init The abort signal and request headers.
+ * @returns A promise that resolves to the response.
+ */
+export function backendFetch(url: string, init: BackendFetchInit): Promise<Response> {
+  switch (config.mode) {
+    case 'background':
+      return fetchInBackground(url, init);
+    case 'proxy':
+      return fetch(proxiedUrl(config.proxyUrl, url), { signal: init.signal, headers: init.headers });
+    default:
+      return fetch(url, { signal: init.signal, headers: init.headers });
+  }
+}
+
+/**
+ * Serves fetch requests from the side panel. Call once from the service worker,
+ * which is not subject to CORS for the extension's host permissions.
+ */
+export function handleBackgroundFetches(): void {
+  chrome.runtime.onMessage.addListener((message: BackgroundFetchRequest, sender, sendResponse) => {
+    if (message?.type !== BACKGROUND_FETCH_MESSAGE || sender.id !== chrome.runtime.id) return false;
+
+    fetch(message.url, { headers: message.headers })
+      .then(async (res): Promise<BackgroundFetchReply> => ({
+        ok: true,
+        status: res.status,
+        statusText: res.statusText,
+        headers: Array.from(res.headers.entries()),
+        body: await res.text(),
+      }))
+      .catch((error): BackgroundFetchReply => ({ ok: false, error: error instanceof Error ? error.message : String(error) }))
+      .then(sendResponse);
+    return true; // The reply is sent asynchronously
+  });
+}
@@ -0,0 +1,260 @@
+import type { EnrichedItem, FullTextHit, SnippetSegment } from '../types';
+import { FULLTEXT_DOCS_STORE, FULLTEXT_POSTINGS_STORE, hasIndexedDb, openDb, promisifyRequest, transactionDone } from './idb';
+
+// Local inverted index over fetched articles. Japanese has no word boundaries,
+// so runs of kanji/kana are indexed as character bigrams, while Latin words and
+// numbers are indexed whole. Candidates found through the index are verified by
+// substring match, which also makes quoted phrases exact.
+
+type IndexedDoc = {
+  url: string;
+  item: EnrichedItem; // Display metadata, without provider payloads
+  title: string; // Normalized
+  text: string; // Normalized body, or the snippet when no body was available
+  indexedAt: number; // Epoch milliseconds
+};
+
+type Posting = {
+  gram: string;
+  urls: string[];
+};
+
+const MAX_INDEXED_CHARS = 20_000; // Per document body
+const SNIPPET_RADIUS = 60; // Characters shown around the first match
+const TITLE_WEIGHT = 5;
+
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]/u;
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+/**
+ * Normalizes text for indexing and matching: NFKC (full-width to half-width),
+ * lower case and collapsed whitespace.
+ */
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Splits normalized text into index terms: bigrams for CJK runs (the character
+ * itself for a lone one) and whole words for everything else.
+ * @param text Normalized text.
+ * @returns The distinct terms.
+ */
+export function ngramTokens(text: string): Set<string> {
+  const terms = new Set<string>();
+  let run: string[] = [];
+  let runIsCjk = false;
+
+  const flush = () => {
+    if (run.length === 0) return;
+    if (!runIsCjk) {
+      terms.add(run.join(''));
+    } else if (run.length === 1) {
+      terms.add(run[0]);
+    } else {
+      for (let i = 0; i < run.length - 1; i++) terms.add(run[i] + run[i + 1]);
+    }
+    run = [];
+  };
+
+  for (const ch of text) {
+    const isCjk = CJK_CHAR.test(ch);
+    if (!isCjk && !WORD_CHAR.test(ch)) {
+      flush();
+      continue;
+    }
+    if (run.length > 0 && isCjk !== runIsCjk) flush();
+    runIsCjk = isCjk;
+    run.push(ch);
+  }
+  flush();
+  return terms;
+}
+
+// Qiita search results carry the Markdown body; other providers only have titles and snippets.
+const rawBody = (item: EnrichedItem): string | undefined => (typeof item.raw?.body === 'string' ? item.raw.body : undefined);
+
+const stripForStorage = ({ raw, cached, ...item }: EnrichedItem): EnrichedItem => item;
+
+const docTerms = (doc: Pick<IndexedDoc, 'title' | 'text'>) => ngramTokens(`${doc.title} ${doc.text}`);
+
+async function writeDocs(items: EnrichedItem[], bodies: { [url: string]: string }): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([FULLTEXT_DOCS_STORE, FULLTEXT_POSTINGS_STORE], 'readwrite');
+  const docs = tx.objectStore(FULLTEXT_DOCS_STORE);
+  const postings = tx.objectStore(FULLTEXT_POSTINGS_STORE);
+  // Listens from the start so completion isn't missed; if a step below throws first,
+  // that error is the one reported and this rejection is deliberately ignored.
+  const done = transactionDone(tx);
+  done.catch(() => undefined);
+
+  const existing = await Promise.all(items.map(item => promisifyRequest<IndexedDoc | undefined>(docs.get(item.url))));
+  // Posting changes are collected first so each gram is read and written once per batch.
+  const changes = new Map<string, { add: Set<string>; remove: Set<string> }>();
+  const change = (gram: string) => {
+    let entry = changes.get(gram);
+    if (!entry) {
+      entry = { add: new Set(), remove: new Set() };
+      changes.set(gram, entry);
+    }
+    return entry;
+  };
+
+  items.forEach((item, i) => {
+    const old = existing[i];
+    const body = bodies[item.url] ?? rawBody(item);
+    const doc: IndexedDoc = {
+      url: item.url,
+      item: stripForStorage(item),
+      title: normalize(item.title ?? ''),
+      // A fetched body is never replaced by a mere snippet from a later search.
+      text: body !== undefined ? normalize(body).slice(0, MAX_INDEXED_CHARS) : old?.text ?? normalize(item.snippet ?? ''),
+      indexedAt: Date.now(),
+    };
+    docs.put(doc);
+    if (old && old.title === doc.title && old.text === doc.text) return;
+
+    const oldTerms = old ? docTerms(old) : new Set<string>();
+    const newTerms = docTerms(doc);
+    for (const gram of newTerms) if (!oldTerms.has(gram)) change(gram).add.add(item.url);
+    for (const gram of oldTerms) if (!newTerms.has(gram)) change(gram).remove.add(item.url);
+  });
+
+  const grams = Array.from(changes.keys());
+  const current = await Promise.all(grams.map(gram => promisifyRequest<Posting | undefined>(postings.get(gram))));
+  grams.forEach((gram, i) => {
+    const { add, remove } = changes.get(gram)!;
+    const urls = new Set(current[i]?.urls ?? []);
+    add.forEach(url => urls.add(url));
+    remove.forEach(url => urls.delete(url));
+    if (urls.size === 0) {
+      postings.delete(gram);
+    } else {
+      postings.put({ gram, urls: Array.from(urls) });
+    }
+  });
+  await done;
+}
+
+// Batches are written one at a time so concurrent searches don't contend for the same postings.
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Adds or updates articles in the local index.
+ * @param items The items to index.
+ * @param bodies Plain-text bodies by URL, e.g. loaded by the preview pane.
+ * @returns A promise that resolves once the batch is stored.
+ */
+export function indexItems(items: EnrichedItem[], bodies: { [url: string]: string } = {}): Promise<void> {
+  if (!hasIndexedDb() || items.length === 0) return Promise.resolve();
+  const run = writeQueue.then(() => writeDocs(items, bodies));
+  writeQueue = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Splits a query into terms: quoted phrases stay whole, other words are separate terms.
+ */
+function parseTerms(query: string): string[] {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const term = normalize(match[1] ?? match[2]);
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+const countOccurrences = (haystack: string, needle: string) => {
+  let count = 0;
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) count++;
+  return count;
+};
+
+/**
+ * Builds a short excerpt around the first match with every term occurrence marked.
+ */
+function buildSnippet(text: string, terms: string[]): SnippetSegment[] {
+  const first = Math.min(...terms.map(term => text.indexOf(term)).filter(i => i !== -1));
+  const start = Number.isFinite(first) ? Math.max(0, first - SNIPPET_RADIUS) : 0;
+  const end = Math.min(text.length, (Number.isFinite(first) ? first : 0) + SNIPPET_RADIUS * 2);
+  const excerpt = text.slice(start, end);
+
+  const pattern = new RegExp(terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'g');
+  const segments: SnippetSegment[] = [];
+  let last = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    if (match.index! > last) segments.push({ text: excerpt.slice(last, match.index), match: false });
+    segments.push({ text: match[0], match: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < excerpt.length) segments.push({ text: excerpt.slice(last), match: false });
+  if (start > 0) segments.unshift({ text: '…', match: false });
+  if (end < text.length) segments.push({ text: '…', match: false });
+  return segments;
+}
+
+/**
+ * Searches every article ever indexed, without network access. All terms must
+ * match; `"quoted phrases"` must appear as written.
+ * @param query The query text.
+ * @param limit The maximum number of hits.
+ * @returns A promise that resolves to the hits, best first.
+ */
+export async function searchIndex(query: string, limit = 500): Promise<FullTextHit[]> {
+  const terms = parseTerms(query);
+  if (terms.length === 0 || !hasIndexedDb()) return [];
+
+  const db = await openDb();
+  const tx = db.transaction([FULLTEXT_DOCS_STORE, FULLTEXT_POSTINGS_STORE], 'readonly');
+  const docs = tx.objectStore(FULLTEXT_DOCS_STORE);
+  const postings = tx.objectStore(FULLTEXT_POSTINGS_STORE);
+
+  // A lone kanji/kana is not a bigram, so such queries fall back to scanning every document.
+  const grams = terms.flatMap(term => Array.from(ngramTokens(term)));
+  const canUseIndex = grams.length > 0 && grams.every(gram => gram.length > 1 || !CJK_CHAR.test(gram));
+
+  let candidates: IndexedDoc[];
+  if (canUseIndex) {
+    const lists = await Promise.all(grams.map(gram => promisifyRequest<Posting | undefined>(postings.get(gram))));
+    if (lists.some(list => !list)) return [];
+    const [smallest, ...rest] = lists.map(list => list!.urls).sort((a, b) => a.length - b.length);
+    const others = rest.map(urls => new Set(urls));
+    const urls = smallest.filter(url => others.every(set => set.has(url)));
+    candidates = (await Promise.all(urls.map(url => promisifyRequest<IndexedDoc | undefined>(docs.get(url)))))
+      .filter((doc): doc is IndexedDoc => doc !== undefined);
+  } else {
+    candidates = await promisifyRequest<IndexedDoc[]>(docs.getAll());
+  }
+
+  const hits: FullTextHit[] = [];
+  for (const doc of candidates) {
+    if (!terms.every(term => doc.title.includes(term) || doc.text.includes(term))) continue;
+    const score = terms.reduce(
+      (sum, term) => sum + countOccurrences(doc.title, term) * TITLE_WEIGHT + countOccurrences(doc.text, term),
+      0
+    );
+    const snippetSource = terms.some(term => doc.text.includes(term)) ? doc.text : doc.title;
+    hits.push({ item: doc.item, score, snippet: buildSnippet(snippetSource, terms) });
+  }
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Counts the indexed articles.
+ * @returns A promise that resolves to the number of documents.
+ */
+export async function countIndexedDocs(): Promise<number> {
+  if (!hasIndexedDb()) return 0;
+  const db = await openDb();
+  return promisifyRequest(db.transaction(FULLTEXT_DOCS_STORE, 'readonly').objectStore(FULLTEXT_DOCS_STORE).count());
+}
+
+/**
+ * Deletes the whole local index.
+ */
+export async function clearIndex(): Promise<void> {
+  if (!hasIndexedDb()) return;
+  const db = await openDb();
+  const tx = db.transaction([FULLTEXT_DOCS_STORE, FULLTEXT_POSTINGS_STORE], 'readwrite');
+  tx.objectStore(FULLTEXT_DOCS_STORE).clear();
+  tx.objectStore(FULLTEXT_POSTINGS_STORE).clear();
+  await transactionDone(tx);
+}
@@ -0,0 +1,49 @@
+import type { EnrichedItem } from '../types';
+import { cachedFetch } from './cache';
+
+const COUNT_API = 'https://bookmark.api.hatena.ne.jp/count/entries';
+const MAX_URLS_PER_REQUEST = 50; // Limit of the count API
+
+/**
+ * Fetches Hatena Bookmark counts, batching up to 50 URLs per request.
+ * @param urls The article URLs, matched exactly as given.
+ * @param signal The abort signal.
+ * @param forceRefresh Bypass the response cache.
+ * @returns A promise that resolves to the count per URL. URLs without bookmarks map to 0.
+ */
+export async function fetchBookmarkCounts(urls: string[], signal: AbortSignal, forceRefresh?: boolean): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  const unique = Array.from(new Set(urls));
+
+  for (let i = 0; i < unique.length; i += MAX_URLS_PER_REQUEST) {
+    const batch = unique.slice(i, i + MAX_URLS_PER_REQUEST);
+    const url = `${COUNT_API}?${batch.map(u => `url=${encodeURIComponent(u)}`).join('&')}`;
+    const res = await cachedFetch(url, { signal, forceRefresh });
+    if (!res.ok) {
+      throw new Error(`[Hatena] Count request failed with status: ${res.status}`);
+    }
+    const data: { [url: string]: number } = await res.json();
+    batch.forEach(u => counts.set(u, Number(data?.[u]) || 0));
+  }
+  return counts;
+}
+
+/**
+ * Adds Hatena Bookmark counts to enriched items, a popularity signal that is
+ * comparable across sources. Failures leave the items unchanged.
+ * @param items The items to annotate.
+ * @param signal The abort signal.
+ * @param forceRefresh Bypass the response cache.
+ * @returns A promise that resolves to the items with `hatenaBookmarkCount` set where known.
+ */
+export async function withBookmarkCounts(items: EnrichedItem[], signal: AbortSignal, forceRefresh?: boolean): Promise<EnrichedItem[]> {
+  if (items.length === 0) return items;
+  try {
+    const counts = await fetchBookmarkCounts(items.map(item => item.url), signal, forceRefresh);
+    return items.map(item => ({ ...item, hatenaBookmarkCount: counts.get(item.url) }));
+  } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
+    console.error('Error fetching Hatena Bookmark counts:', error);
+    return items;
+  }
+}
@@ -0,0 +1,74 @@
+import type { HistoryEntry, SearchParams } from '../types';
+import { storageGet, storageSet } from './storage';
+
+const HISTORY_KEY = 'history';
+const MAX_RECENT = 50; // Unnamed, unpinned entries kept
+
+const isKept = (entry: HistoryEntry) => entry.pinned || entry.name !== undefined;
+
+const sameParams = (a: SearchParams, b: SearchParams) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Loads the search history.
+ * @returns A promise that resolves to the stored entries.
+ */
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  return storageGet<HistoryEntry[]>(HISTORY_KEY, []);
+}
+
+/**
+ * Persists the search history.
+ * @param entries The entries to store.
+ */
+export async function saveHistory(entries: HistoryEntry[]): Promise<void> {
+  await storageSet(HISTORY_KEY, entries);
+}
+
+/**
+ * Records a finished search. Re-running an existing search refreshes its entry
+ * instead of adding a duplicate. Old unnamed entries beyond the cap are dropped.
+ * @param entries The current history.
+ * @param params The parameters the search ran with.
+ * @param resultCount The number of items found.
+ * @returns The updated history.
+ */
+export function addHistoryEntry(entries: HistoryEntry[], params: SearchParams, resultCount: number): HistoryEntry[] {
+  const existing = entries.find(entry => sameParams(entry.params, params));
+  const entry: HistoryEntry = existing
+    ? { ...existing, searchedAt: Date.now(), resultCount }
+    : { id: crypto.randomUUID(), params, searchedAt: Date.now(), resultCount, pinned: false };
+
+  const next = [entry, ...entries.filter(e => e.id !== entry.id)];
+  let recent = 0;
+  return next.filter(e => isKept(e) || ++recent <= MAX_RECENT);
+}
+
+/**
+ * Applies a partial update to one entry, e.g. to pin or rename it.
+ * @param entries The current history.
+ * @param id The id of the entry to update.
+ * @param patch The fields to change.
+ * @returns The updated history.
+ */
+export function updateHistoryEntry(entries: HistoryEntry[], id: string, patch: Partial<Omit<HistoryEntry, 'id'>>): HistoryEntry[] {
+  return entries.map(entry => (entry.id === id ? { ...entry, ...patch } : entry));
+}
+
+/**
+ * Removes one entry.
+ * @param entries The current history.
+ * @param id The id of the entry to remove.
+ * @returns The updated history.
+ */
+export function removeHistoryEntry(entries: HistoryEntry[], id: string): HistoryEntry[] {
+  return entries.filter(entry => entry.id !== id);
+}
+
+/**
+ * Orders entries for display: pinned first, then most recently run.
+ * @param entries The history to sort.
+ * @returns A new sorted array.
+ */
+export function sortHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  return [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.searchedAt - a.searchedAt);
+}
@@ -0,0 +1,72 @@
+// Minimal promise helpers over IndexedDB. All object stores for the app live in
+// one database; add new stores in `upgrade` and bump DB_VERSION.
+
+const DB_NAME = 'qiita-search';
+const DB_VERSION = 2;
+
+export const HTTP_CACHE_STORE = 'http-cache';
+export const FULLTEXT_DOCS_STORE = 'fulltext-docs';
+export const FULLTEXT_POSTINGS_STORE = 'fulltext-postings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const cache = db.createObjectStore(HTTP_CACHE_STORE, { keyPath: 'url' });
+    cache.createIndex('accessedAt', 'accessedAt');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(FULLTEXT_DOCS_STORE, { keyPath: 'url' });
+    db.createObjectStore(FULLTEXT_POSTINGS_STORE, { keyPath: 'gram' });
+  }
+}
+
+/**
+ * Checks whether IndexedDB is available in the current environment.
+ * @returns True in extension pages and browsers, false e.g. in Node.
+ */
+export const hasIndexedDb = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Opens (and lazily upgrades) the app database. The connection is shared.
+ * @returns A promise that resolves to the database.
+ */
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null; // Allow a retry on the next call
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Wraps an IDBRequest in a promise.
+ * @param request The request to wait for.
+ * @returns A promise that resolves to the request's result.
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Waits for a transaction to commit.
+ * @param tx The transaction.
+ * @returns A promise that resolves once the transaction completes.
+ */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Aborted', 'AbortError'));
+  });
+}
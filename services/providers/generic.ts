@@ -0,0 +1,207 @@
+import type { Provider, ProviderOptions, FoundItem, EnrichedItem, GenericProviderConfig } from '../../types';
+import { cachedFetch, isCachedResponse } from '../cache';
+
+const DEFAULT_MAX_PAGES = 5;
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+type ExtractedFields = {
+  title?: string;
+  url?: string;
+  publishedAt?: string;
+  likeCount?: string;
+  author?: string;
+  snippet?: string;
+};
+
+/**
+ * Reads a value by a dotted JSON path such as `data.items[0].title`.
+ * An empty path returns the value itself.
+ */
+function readJsonPath(value: any, path: string): any {
+  if (!path) return value;
+  return path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean)
+    .reduce((current, key) => (current === null || current === undefined ? undefined : current[key]), value);
+}
+
+/**
+ * Reads a field from a result element: `selector@attr` reads an attribute,
+ * `@attr` reads it from the result element itself, a bare selector reads text.
+ */
+function readSelector(el: Element, locator: string, defaultAttribute?: string): string | undefined {
+  const at = locator.lastIndexOf('@');
+  const selector = (at === -1 ? locator : locator.slice(0, at)).trim();
+  const attribute = at === -1 ? defaultAttribute : locator.slice(at + 1).trim();
+  const target = selector ? el.querySelector(selector) : el;
+  if (!target) return undefined;
+  const value = attribute ? target.getAttribute(attribute) : target.textContent;
+  return value?.trim() || undefined;
+}
+
+const toText = (value: unknown) => (value === null || value === undefined || typeof value === 'object' ? undefined : String(value));
+
+function extractJson(config: GenericProviderConfig, body: string): ExtractedFields[] {
+  const list = readJsonPath(JSON.parse(body), config.items);
+  if (!Array.isArray(list)) return [];
+  return list.map(entry => ({
+    title: toText(readJsonPath(entry, config.fields.title)),
+    url: toText(readJsonPath(entry, config.fields.url)),
+    publishedAt: config.fields.publishedAt ? toText(readJsonPath(entry, config.fields.publishedAt)) : undefined,
+    likeCount: config.fields.likeCount ? toText(readJsonPath(entry, config.fields.likeCount)) : undefined,
+    author: config.fields.author ? toText(readJsonPath(entry, config.fields.author)) : undefined,
+    snippet: config.fields.snippet ? toText(readJsonPath(entry, config.fields.snippet)) : undefined,
+  }));
+}
+
+function extractHtml(config: GenericProviderConfig, body: string): ExtractedFields[] {
+  const doc = new DOMParser().parseFromString(body, 'text/html');
+  return Array.from(doc.querySelectorAll(config.items)).map(el => ({
+    title: readSelector(el, config.fields.title),
+    url: readSelector(el, config.fields.url, 'href'),
+    publishedAt: config.fields.publishedAt ? readSelector(el, config.fields.publishedAt) : undefined,
+    likeCount: config.fields.likeCount ? readSelector(el, config.fields.likeCount) : undefined,
+    author: config.fields.author ? readSelector(el, config.fields.author) : undefined,
+    snippet: config.fields.snippet ? readSelector(el, config.fields.snippet) : undefined,
+  }));
+}
+
+const resolveUrl = (url: string, base: string) => {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return undefined;
+  }
+};
+
+const parseCount = (value?: string) => {
+  if (value === undefined) return undefined;
+  const count = Number(value.replace(/[^\d.]/g, ''));
+  return value.match(/\d/) && Number.isFinite(count) ? count : undefined;
+};
+
+const parseDate = (value?: string) => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+/**
+ * Builds a provider from a declarative site definition.
+ * @param config A definition that passed `validateGenericProviderConfig`.
+ * @returns A provider that fetches the search URL and extracts results with the configured locators.
+ */
+export function createGenericProvider(config: GenericProviderConfig): Provider {
+  const hasPaging = config.searchUrl.includes('{page}');
+  const firstPage = config.firstPage ?? 1;
+  const maxPages = hasPaging ? config.maxPages ?? DEFAULT_MAX_PAGES : 1;
+  const tag = `[${config.displayName}]`;
+
+  return {
+    id: config.id,
+    displayName: config.displayName,
+    capabilities: {
+      paging: hasPaging,
+      metrics: config.fields.likeCount !== undefined,
+      body: false,
+      auth: false,
+      queryQualifiers: false,
+      explore: false,
+      requiresDom: config.format === 'html',
+    },
+
+    async search(opts: ProviderOptions, signal: AbortSignal): Promise<FoundItem[]> {
+      if (opts.tokens.length === 0) return [];
+      const query = encodeURIComponent(opts.tokens.join(' '));
+      const foundItems: FoundItem[] = [];
+
+      for (let page = firstPage; page < firstPage + maxPages && foundItems.length < opts.maxDiscover && !signal.aborted; page++) {
+        const url = config.searchUrl.replace(/\{query\}/g, query).replace(/\{page\}/g, String(page));
+        console.log(`${tag} Fetching page ${page}: ${url}`);
+
+        const res = await cachedFetch(url, { signal, forceRefresh: opts.forceRefresh });
+        const cached = isCachedResponse(res);
+        if (!res.ok) {
+          throw new Error(`${tag} Search request failed with status: ${res.status}`);
+        }
+
+        const body = await res.text();
+        const extracted = config.format === 'json' ? extractJson(config, body) : extractHtml(config, body);
+        const pageItems: FoundItem[] = [];
+        for (const fields of extracted) {
+          const itemUrl = fields.url && resolveUrl(fields.url, url);
+          if (!itemUrl || foundItems.length + pageItems.length >= opts.maxDiscover) continue;
+          pageItems.push({
+            url: itemUrl,
+            source: config.id,
+            title: fields.title,
+            snippet: fields.snippet,
+            rank: foundItems.length + pageItems.length + 1,
+            raw: fields,
+            cached,
+          });
+        }
+        if (pageItems.length === 0) {
+          break; // No more results
+        }
+        foundItems.push(...pageItems);
+        opts.onPage?.(pageItems);
+      }
+
+      console.log(`${tag} Found ${foundItems.length} items.`);
+      return foundItems;
+    },
+
+    async enrich(items: FoundItem[], signal: AbortSignal): Promise<EnrichedItem[]> {
+      // Everything was extracted from the search response.
+      return items.map(item => {
+        if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+        const fields: ExtractedFields = item.raw ?? {};
+        return {
+          ...item,
+          publishedAt: parseDate(fields.publishedAt),
+          likeCount: parseCount(fields.likeCount),
+          author: fields.author,
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Checks a user-supplied site definition.
+ * @param value The parsed JSON.
+ * @returns Error messages; empty if the definition is usable.
+ */
+export function validateGenericProviderConfig(value: any): string[] {
+  const label = typeof value?.id === 'string' ? value.id : '(id なし)';
+  if (typeof value !== 'object' || value === null) return ['ソースの定義はオブジェクトで指定してください。'];
+
+  const errors: string[] = [];
+  if (typeof value.id !== 'string' || !ID_PATTERN.test(value.id)) {
+    errors.push(`${label}: id は英小文字・数字・ハイフンで指定してください。`);
+  }
+  if (typeof value.displayName !== 'string' || !value.displayName.trim()) {
+    errors.push(`${label}: displayName を指定してください。`);
+  }
+  if (typeof value.searchUrl !== 'string' || !value.searchUrl.includes('{query}') || !/^https?:\/\//.test(value.searchUrl)) {
+    errors.push(`${label}: searchUrl は {query} を含む http(s) の URL で指定してください。`);
+  }
+  if (value.format !== 'json' && value.format !== 'html') {
+    errors.push(`${label}: format は "json" か "html" を指定してください。`);
+  }
+  if (typeof value.items !== 'string' || (value.format === 'html' && !value.items.trim())) {
+    errors.push(`${label}: items に結果の位置（JSONパスまたはCSSセレクタ）を指定してください。`);
+  }
+  if (typeof value.fields?.title !== 'string' || typeof value.fields?.url !== 'string') {
+    errors.push(`${label}: fields.title と fields.url を指定してください。`);
+  }
+  if (value.firstPage !== undefined && (!Number.isInteger(value.firstPage) || value.firstPage < 0)) {
+    errors.push(`${label}: firstPage は0以上の整数で指定してください。`);
+  }
+  if (value.maxPages !== undefined && (!Number.isInteger(value.maxPages) || value.maxPages < 1)) {
+    errors.push(`${label}: maxPages は1以上の整数で指定してください。`);
+  }
+  return errors;
+}
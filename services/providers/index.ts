@@ -1,9 +1,82 @@
-
-import type { Provider } from '../../types';
+import type { GenericProviderConfig, Provider } from '../../types';
 import { qiitaProvider } from './qiita';
+import { zennProvider } from './zenn';
+import { noteProvider } from './note';
+import { createGenericProvider } from './generic';
+
+export { validateGenericProviderConfig } from './generic';
+
+const builtInProviders: Provider[] = [qiitaProvider, zennProvider, noteProvider];
+
+let providers: Provider[] = [...builtInProviders];
+let customIds = new Set<string>(); // Providers created from user-defined configs
+const listeners = new Set<(providers: Provider[]) => void>();
+
+const notify = () => listeners.forEach(listener => listener(providers));
+
+/**
+ * Lists the registered providers: the built-in ones first, then plugins and custom sites.
+ * @returns The current providers. The array is replaced, never mutated, on change.
+ */
+export const getProviders = (): Provider[] => providers;
+
+/**
+ * Looks up a provider by id.
+ * @param id The provider id, as stored in `FoundItem.source`.
+ * @returns The provider, or undefined if it is not registered.
+ */
+export const getProvider = (id: string): Provider | undefined => providers.find(p => p.id === id);
+
+export const isBuiltInProvider = (id: string) => builtInProviders.some(p => p.id === id);
+
+/**
+ * Adds or replaces a provider at runtime.
+ * @param provider The provider to register.
+ * @throws Error if the id belongs to a built-in provider.
+ */
+export function registerProvider(provider: Provider): void {
+  if (isBuiltInProvider(provider.id)) {
+    throw new Error(`Provider id "${provider.id}" is reserved.`);
+  }
+  providers = [...providers.filter(p => p.id !== provider.id), provider];
+  notify();
+}
+
+/**
+ * Removes a provider registered at runtime. Built-in providers cannot be removed.
+ * @param id The provider id.
+ */
+export function unregisterProvider(id: string): void {
+  if (isBuiltInProvider(id)) return;
+  providers = providers.filter(p => p.id !== id);
+  customIds.delete(id);
+  notify();
+}
 
-export const allProviders: Provider[] = [qiitaProvider];
+/**
+ * Replaces the providers created from user-defined site configs.
+ * Configs that clash with a built-in id are skipped.
+ * @param configs The validated configs from settings.
+ */
+export function syncCustomProviders(configs: GenericProviderConfig[]): void {
+  const usable = configs.filter(config => !isBuiltInProvider(config.id));
+  const nextIds = new Set(usable.map(config => config.id));
+  providers = [
+    ...providers.filter(p => !customIds.has(p.id) && !nextIds.has(p.id)),
+    ...usable.map(createGenericProvider),
+  ];
+  customIds = nextIds;
+  notify();
+}
 
-export const providerRegistry: { [key: string]: Provider } = {
-  qiita: qiitaProvider,
-};
\ No newline at end of file
+/**
+ * Subscribes to changes of the registered providers.
+ * @param listener Called with the new list.
+ * @returns A function that removes the listener.
+ */
+export function subscribeProviders(listener: (providers: Provider[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -1,12 +1,14 @@
-import type { Provider, ProviderOptions, FoundItem, EnrichedItem } from '../../types';
-import { delay, duckduckgoSiteSearch } from '../../utils';
+import type { Provider, ProviderOptions, FoundItem, EnrichedItem, EnrichOptions, ArticlePreview } from '../../types';
+import { duckduckgoSiteSearch } from '../../utils';
+import { cachedFetch, isCachedResponse } from '../cache';
 
-async function enrichNoteItem(item: FoundItem, signal: AbortSignal): Promise<EnrichedItem> {
-  // IMPORTANT: This fetch will be blocked by CORS in a browser.
-  // It requires a server-side proxy to work in a real web application.
+async function enrichNoteItem(item: FoundItem, signal: AbortSignal, forceRefresh?: boolean): Promise<EnrichedItem> {
+  // Outside the extension this page is blocked by CORS; the 'proxy' fetch mode gets around it.
   try {
-    const res = await fetch(item.url, { signal });
-    if (!res.ok) return { ...item }; // Failed to fetch, return as is
+    const res = await cachedFetch(item.url, { signal, forceRefresh });
+    if (!res.ok) return { ...item, cached: false }; // Failed to fetch, return as is
+    // Metrics come from the article page, so its fetch decides the cached flag.
+    const cached = isCachedResponse(res);
 
     const html = await res.text();
     const doc = new DOMParser().parseFromString(html, 'text/html');
@@ -21,34 +23,52 @@ async function enrichNoteItem(item: FoundItem, signal: AbortSignal): Promise<Enr
     const likeMatch = bodyText.match(/スキ\s*([0-9,]+)/);
     const likeCount = likeMatch ? parseInt(likeMatch[1].replace(/,/g, ''), 10) : undefined;
 
-    return { ...item, publishedAt, likeCount };
+    return { ...item, publishedAt, likeCount, cached };
   } catch (error) {
     if (error instanceof Error && error.name !== 'AbortError') {
       console.error(`[Note] Failed to enrich ${item.url}:`, error);
     }
-    return { ...item }; // Return original on error
+    return { ...item, cached: false }; // Return original on error
   }
 }
 
 export const noteProvider: Provider = {
   id: 'note',
   displayName: 'Note',
+  capabilities: {
+    paging: false,
+    metrics: true,
+    body: true,
+    auth: false,
+    queryQualifiers: false,
+    explore: false,
+    requiresDom: true, // DuckDuckGo results and article pages are scraped
+  },
   async search(opts: ProviderOptions, signal: AbortSignal): Promise<FoundItem[]> {
     console.log(`[Note] Searching via DuckDuckGo for: ${opts.tokens.join(', ')}`);
-    return await duckduckgoSiteSearch('note.com', opts.tokens, opts.maxDiscover, 'note', signal);
+    return await duckduckgoSiteSearch('note.com', opts.tokens, opts.maxDiscover, 'note', signal, opts.forceRefresh);
   },
 
-  async enrich(items: FoundItem[], signal: AbortSignal): Promise<EnrichedItem[]> {
+  async enrich(items: FoundItem[], signal: AbortSignal, opts?: EnrichOptions): Promise<EnrichedItem[]> {
     console.log(`[Note] Enriching ${items.length} items by scraping pages.`);
-    const enrichedItems: EnrichedItem[] = [];
-    for (const item of items) {
-      if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
-      const enrichedItem = await enrichNoteItem(item, signal);
-      enrichedItems.push(enrichedItem);
-      // Politeness delay between scraping each page
-      await delay(300 + Math.random() * 200, signal);
-    }
+    // Pages are fetched in parallel; the scheduler caps concurrency and spacing per host.
+    const enrichedItems = await Promise.all(items.map(item => enrichNoteItem(item, signal, opts?.forceRefresh)));
+    if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
     console.log(`[Note] Finished enriching.`);
     return enrichedItems;
   },
+
+  async preview(item: EnrichedItem, signal: AbortSignal): Promise<ArticlePreview> {
+    // Article pages are rendered client-side, so the body comes from Note's JSON API.
+    const key = item.url.match(/\/n\/(n[0-9a-z]+)/)?.[1];
+    if (!key) throw new Error(`[Note] Cannot find the note key in ${item.url}`);
+    const res = await cachedFetch(`https://note.com/api/v3/notes/${key}`, { signal });
+    if (!res.ok) throw new Error(`[Note] Note request failed with status: ${res.status}`);
+    const data = await res.json();
+    const hashtags: any[] = Array.isArray(data?.data?.hashtag_notes) ? data.data.hashtag_notes : [];
+    return {
+      html: data?.data?.body ?? '',
+      tags: hashtags.map(tag => String(tag?.hashtag?.name ?? '').replace(/^#/, '')).filter(Boolean),
+    };
+  },
 };
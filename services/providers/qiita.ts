@@ -1,56 +1,128 @@
-import type { Provider, ProviderOptions, FoundItem, EnrichedItem } from '../../types';
-import { delay } from '../../utils';
+import type { Provider, ProviderOptions, FoundItem, EnrichedItem, RateLimitInfo, ArticlePreview, PreviewOptions, ExploreMode, TagInfo } from '../../types';
+import { estimateReadingMinutes, isPublishedBefore } from '../../utils';
+import { formatQuery } from '../query';
+import { cachedFetch, isCachedResponse } from '../cache';
+
+const QIITA_API = 'https://qiita.com/api/v2';
+const PER_PAGE = 100; // Qiita API max is 100
+export const QIITA_MAX_PAGES = 100; // The API rejects page numbers above 100
+
+const explorePaths: { [K in ExploreMode['kind']]: (id: string) => string } = {
+  userItems: id => `/users/${id}/items`,
+  userStocks: id => `/users/${id}/stocks`,
+  tagItems: id => `/tags/${id}/items`,
+};
+
+/**
+ * Picks the endpoint for a keyword search or an exploration listing.
+ * @param opts The provider options.
+ * @returns The endpoint URL with its query string, to which paging parameters are appended.
+ */
+function buildListUrl(opts: ProviderOptions): string {
+  if (opts.explore) {
+    return `${QIITA_API}${explorePaths[opts.explore.kind](encodeURIComponent(opts.explore.id))}?`;
+  }
+  // Prefer the structured query so qualifiers like tag: and created:>= reach the API intact.
+  const q = encodeURIComponent(opts.query ? formatQuery(opts.query) : opts.tokens.join(' '));
+  return `${QIITA_API}/items?query=${q}&`;
+}
+
+/**
+ * Reads Qiita's rate limit headers from an API response.
+ * @param res The API response.
+ * @returns The quota info, or undefined if the headers are missing.
+ */
+function readRateLimit(res: Response): RateLimitInfo | undefined {
+  const remaining = res.headers.get('Rate-Remaining');
+  const reset = res.headers.get('Rate-Reset');
+  if (remaining === null || reset === null) return undefined;
+  const limit = res.headers.get('Rate-Limit');
+  return {
+    limit: limit === null ? undefined : parseInt(limit, 10),
+    remaining: parseInt(remaining, 10),
+    resetAt: parseInt(reset, 10) * 1000, // Header is in epoch seconds
+  };
+}
 
 export const qiitaProvider: Provider = {
   id: 'qiita',
   displayName: 'Qiita',
+  maxDiscover: QIITA_MAX_PAGES * PER_PAGE,
+  capabilities: {
+    paging: true,
+    metrics: true,
+    body: true,
+    auth: true,
+    queryQualifiers: true,
+    explore: true,
+    requiresDom: false,
+  },
   async search(opts: ProviderOptions, signal: AbortSignal): Promise<FoundItem[]> {
-    const q = encodeURIComponent(opts.tokens.join(' '));
-    const perPage = 100; // Qiita API max is 100
-    const maxPages = Math.ceil(opts.maxDiscover / perPage);
+    const listUrl = buildListUrl(opts);
+    const maxPages = Math.min(QIITA_MAX_PAGES, Math.ceil(opts.maxDiscover / PER_PAGE));
+    // Stocks are listed by when they were stocked, so an old article doesn't mean the rest are old.
+    const newestFirst = opts.explore?.kind !== 'userStocks';
     const foundItems: FoundItem[] = [];
     let page = 1;
+    const headers: HeadersInit = opts.accessToken ? { Authorization: `Bearer ${opts.accessToken}` } : {};
     
-    console.log(`[Qiita] Searching for: "${q}", aiming for ${opts.maxDiscover} items over ${maxPages} pages.`);
+    console.log(`[Qiita] Listing ${listUrl}, aiming for ${opts.maxDiscover} items over ${maxPages} pages.`);
 
     while (foundItems.length < opts.maxDiscover && page <= maxPages && !signal.aborted) {
-      const url = `https://qiita.com/api/v2/items?query=${q}&page=${page}&per_page=${perPage}`;
+      const url = `${listUrl}page=${page}&per_page=${PER_PAGE}`;
       console.log(`[Qiita] Fetching page ${page}: ${url}`);
       
-      try {
-        // NOTE: This fetch might be blocked by CORS in a browser without a proxy.
-        const res = await fetch(url, { signal });
-        if (!res.ok) {
-          console.error(`[Qiita] API request failed with status: ${res.status}`);
-          break;
-        }
+      // Retries, timeouts and the politeness gap between pages are handled by the scheduler.
+      const res = await cachedFetch(url, { signal, headers, forceRefresh: opts.forceRefresh });
+      const cached = isCachedResponse(res);
+      const rateLimit = readRateLimit(res);
+      if (rateLimit) opts.onRateLimit?.(rateLimit);
 
-        const data = await res.json();
-        if (!Array.isArray(data) || data.length === 0) {
-          break; // No more results
+      if (!res.ok) {
+        // Pages already delivered through onPage are kept by the aggregator.
+        if (res.status === 401) {
+          throw new Error('[Qiita] Access token was rejected (401). Check the token in settings.');
         }
-
-        data.forEach((item: any, idx: number) => {
-          if (foundItems.length < opts.maxDiscover) {
-            foundItems.push({
-              url: item.url,
-              source: 'qiita',
-              title: item.title,
-              rank: (page - 1) * perPage + idx + 1,
-              raw: item, // Pass the full API object to the enrich step
-            });
-          }
-        });
-        
-        page++;
-        // Politeness delay between pages
-        if (foundItems.length < opts.maxDiscover && data.length > 0 && page <= maxPages) {
-          await delay(600, signal);
+        if (res.status === 404 && opts.explore) {
+          throw new Error(`[Qiita] "${opts.explore.id}" was not found.`);
         }
-      } catch (error) {
-        if (error instanceof Error && error.name !== 'AbortError') {
-            console.error('[Qiita] Fetch error:', error);
+        if (res.status === 403 && rateLimit?.remaining === 0) {
+          throw new Error(`[Qiita] Rate limit exceeded. Resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}.`);
+        }
+        throw new Error(`[Qiita] API request failed with status: ${res.status}`);
+      }
+
+      const data = await res.json();
+      if (!Array.isArray(data) || data.length === 0) {
+        break; // No more results
+      }
+
+      const pageItems: FoundItem[] = [];
+      let reachedCutoff = false;
+      data.forEach((item: any, idx: number) => {
+        if (isPublishedBefore(item.created_at, opts.stopBefore)) {
+          reachedCutoff = true;
+        } else if (foundItems.length + pageItems.length < opts.maxDiscover) {
+          pageItems.push({
+            url: item.url,
+            source: 'qiita',
+            title: item.title,
+            rank: (page - 1) * PER_PAGE + idx + 1,
+            raw: item, // Pass the full API object to the enrich step
+            cached,
+          });
         }
+      });
+      foundItems.push(...pageItems);
+      opts.onPage?.(pageItems);
+      
+      page++;
+      if (reachedCutoff && newestFirst) {
+        console.log('[Qiita] Reached articles older than the cutoff, stopping.');
+        break;
+      }
+      if (rateLimit?.remaining === 0) {
+        console.warn('[Qiita] Rate limit reached, stopping before the next page.');
         break;
       }
     }
@@ -71,7 +143,48 @@ export const qiitaProvider: Provider = {
             likeCount: raw?.likes_count,
             // Qiita API v2 does not provide view counts in the items list
             viewCount: undefined, 
+            author: raw?.user?.id,
+            authorName: raw?.user?.name || undefined,
+            tags: Array.isArray(raw?.tags) ? raw.tags.map((tag: any) => tag.name) : undefined,
+            stockCount: raw?.stocks_count,
+            commentCount: raw?.comments_count,
+            updatedAt: raw?.updated_at,
+            readingMinutes: typeof raw?.body === 'string' ? estimateReadingMinutes(raw.body.length) : undefined,
         };
     });
   },
-};
\ No newline at end of file
+
+  async preview(item: EnrichedItem, signal: AbortSignal, opts?: PreviewOptions): Promise<ArticlePreview> {
+    // Search results already include the rendered body; fetch the item only if it was dropped.
+    if (typeof item.raw?.rendered_body === 'string') {
+      return { html: item.raw.rendered_body };
+    }
+    const id = item.url.match(/\/items\/([0-9a-f]+)/)?.[1];
+    if (!id) throw new Error(`[Qiita] Cannot find the item id in ${item.url}`);
+    const headers: HeadersInit = opts?.accessToken ? { Authorization: `Bearer ${opts.accessToken}` } : {};
+    const res = await cachedFetch(`${QIITA_API}/items/${id}`, { signal, headers });
+    if (!res.ok) throw new Error(`[Qiita] Item request failed with status: ${res.status}`);
+    const data = await res.json();
+    return { html: data.rendered_body ?? '' };
+  },
+};
+/**
+ * Fetches a tag's follower and article counts.
+ * @param id The tag name, e.g. 'React'.
+ * @param signal An abort signal.
+ * @param accessToken Optional personal access token.
+ * @returns A promise that resolves to the tag info.
+ * @throws Error if the tag does not exist or the request fails.
+ */
+export async function fetchQiitaTag(id: string, signal: AbortSignal, accessToken?: string): Promise<TagInfo> {
+  const headers: HeadersInit = accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+  const res = await cachedFetch(`${QIITA_API}/tags/${encodeURIComponent(id)}`, { signal, headers });
+  if (!res.ok) throw new Error(`[Qiita] Tag request failed with status: ${res.status}`);
+  const data = await res.json();
+  return {
+    id: data.id ?? id,
+    followersCount: data.followers_count ?? 0,
+    itemsCount: data.items_count ?? 0,
+    iconUrl: data.icon_url || undefined,
+  };
+}
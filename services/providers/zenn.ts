@@ -1,79 +1,135 @@
-import type { Provider, ProviderOptions, FoundItem, EnrichedItem } from '../../types';
-import { delay, duckduckgoSiteSearch } from '../../utils';
+import type { Provider, ProviderOptions, FoundItem, EnrichedItem, SearchQuery, ArticlePreview } from '../../types';
+import { estimateReadingMinutes, isPublishedBefore } from '../../utils';
+import { cachedFetch, isCachedResponse } from '../cache';
 
+const ZENN_ORIGIN = 'https://zenn.dev';
 
-async function enrichZennItem(item: FoundItem, signal: AbortSignal): Promise<EnrichedItem> {
-  // IMPORTANT: This fetch will be blocked by CORS in a browser.
-  // It requires a server-side proxy to work in a real web application.
-  try {
-    const res = await fetch(item.url, { signal });
-    if (!res.ok) return { ...item };
+/**
+ * Picks the Zenn endpoint for a search. Keywords go through Zenn's search API;
+ * without keywords, a lone `tag:` or `user:` qualifier maps onto the topic or
+ * user article listing.
+ * @param opts The provider options.
+ * @returns The endpoint URL without the page parameter, or undefined if there is nothing Zenn can search for.
+ */
+function buildSearchUrl(opts: ProviderOptions): string | undefined {
+  if (opts.tokens.length > 0) {
+    const q = encodeURIComponent(opts.tokens.join(' '));
+    return `${ZENN_ORIGIN}/api/search?q=${q}&source=articles&order=latest`;
+  }
+  const listingFilter = opts.query && findListingFilter(opts.query);
+  if (!listingFilter) return undefined;
+  const param = listingFilter.field === 'tag' ? 'topicname' : 'username';
+  return `${ZENN_ORIGIN}/api/articles?${param}=${encodeURIComponent(listingFilter.value)}&order=latest`;
+}
+
+function findListingFilter(query: SearchQuery): { field: 'tag' | 'user'; value: string } | undefined {
+  const terms = query.clauses.filter(clause => clause.length === 1).map(clause => clause[0]);
+  const listing = terms.filter(term => !term.negated && (term.field === 'tag' || term.field === 'user'));
+  if (listing.length !== 1) return undefined;
+  const { field, value } = listing[0];
+  return { field: field as 'tag' | 'user', value: field === 'tag' ? value.toLowerCase() : value };
+}
+
+export const zennProvider: Provider = {
+  id: 'zenn',
+  displayName: 'Zenn',
+  capabilities: {
+    paging: true,
+    metrics: true,
+    body: true,
+    auth: false,
+    queryQualifiers: false, // Only a lone tag: or user: qualifier, mapped to listings
+    explore: false,
+    requiresDom: false,
+  },
+  async search(opts: ProviderOptions, signal: AbortSignal): Promise<FoundItem[]> {
+    const baseUrl = buildSearchUrl(opts);
+    if (!baseUrl) return [];
 
-    const html = await res.text();
-    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const foundItems: FoundItem[] = [];
+    let page: number | null = 1;
 
-    let publishedAt: string | undefined;
-    let likeCount: number | undefined;
+    console.log(`[Zenn] Searching via JSON API, aiming for ${opts.maxDiscover} items.`);
 
-    // Approach 1: Try to find JSON-LD script for structured data (more reliable)
-    const ldJsonScript = doc.querySelector('script[type="application/ld+json"]');
-    if (ldJsonScript?.textContent) {
-      try {
-        const ld = JSON.parse(ldJsonScript.textContent);
-        publishedAt = ld.datePublished || ld.dateCreated;
-        if (ld.interactionStatistic) {
-          const likeInteraction = ld.interactionStatistic.find((stat: any) => stat.interactionType.includes('LikeAction'));
-          if (likeInteraction) {
-            likeCount = parseInt(likeInteraction.userInteractionCount, 10);
-          }
-        }
-      } catch (e) {
-        console.warn(`[Zenn] Failed to parse JSON-LD for ${item.url}`, e);
+    while (page !== null && foundItems.length < opts.maxDiscover && !signal.aborted) {
+      const url = `${baseUrl}&page=${page}`;
+      console.log(`[Zenn] Fetching page ${page}: ${url}`);
+
+      // Retries, timeouts and the politeness gap between pages are handled by the scheduler.
+      const res = await cachedFetch(url, { signal, forceRefresh: opts.forceRefresh });
+      const cached = isCachedResponse(res);
+      if (!res.ok) {
+        // Pages already delivered through onPage are kept by the aggregator.
+        throw new Error(`[Zenn] API request failed with status: ${res.status}`);
       }
-    }
 
-    // Fallback if JSON-LD fails
-    if (!publishedAt) {
-      const timeEl = doc.querySelector('time[datetime]');
-      publishedAt = timeEl?.getAttribute('datetime') || undefined;
-    }
-    if (!likeCount) {
-        // This is brittle. Looks for a specific element structure near the like button.
-        const likeButton = doc.querySelector('[class^="Like_container"]');
-        const likeCountText = likeButton?.querySelector('span')?.textContent;
-        if(likeCountText) {
-            likeCount = parseInt(likeCountText, 10);
+      const data = await res.json();
+      const articles: any[] = Array.isArray(data?.articles) ? data.articles : [];
+      if (articles.length === 0) {
+        break; // No more results
+      }
+
+      const pageItems: FoundItem[] = [];
+      let reachedCutoff = false;
+      articles.forEach((article: any) => {
+        if (isPublishedBefore(article.published_at, opts.stopBefore)) {
+          reachedCutoff = true;
+        } else if (foundItems.length + pageItems.length < opts.maxDiscover && article.path) {
+          pageItems.push({
+            url: `${ZENN_ORIGIN}${article.path}`,
+            source: 'zenn',
+            title: article.title,
+            rank: foundItems.length + pageItems.length + 1,
+            raw: article, // Pass the full API object to the enrich step
+            cached,
+          });
         }
-    }
+      });
+      foundItems.push(...pageItems);
+      opts.onPage?.(pageItems);
 
-    return { ...item, publishedAt, likeCount };
-  } catch (error) {
-    if (error instanceof Error && error.name !== 'AbortError') {
-      console.error(`[Zenn] Failed to enrich ${item.url}:`, error);
+      // Both endpoints are requested with order=latest, so the rest of the pages are older still.
+      if (reachedCutoff) {
+        console.log('[Zenn] Reached articles older than the cutoff, stopping.');
+        break;
+      }
+      page = typeof data.next_page === 'number' ? data.next_page : null;
     }
-    return { ...item };
-  }
-}
 
-export const zennProvider: Provider = {
-  id: 'zenn',
-  displayName: 'Zenn',
-  async search(opts: ProviderOptions, signal: AbortSignal): Promise<FoundItem[]> {
-    console.log(`[Zenn] Searching via DuckDuckGo for: ${opts.tokens.join(', ')}`);
-    return await duckduckgoSiteSearch('zenn.dev', opts.tokens, opts.maxDiscover, 'zenn', signal);
+    console.log(`[Zenn] Found ${foundItems.length} items.`);
+    return foundItems.slice(0, opts.maxDiscover);
   },
 
   async enrich(items: FoundItem[], signal: AbortSignal): Promise<EnrichedItem[]> {
-    console.log(`[Zenn] Enriching ${items.length} items by scraping pages.`);
-    const enrichedItems: EnrichedItem[] = [];
-    for (const item of items) {
+    // The listing API already includes metrics, so this is a pure transform.
+    return items.map(item => {
       if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
-      const enrichedItem = await enrichZennItem(item, signal);
-      enrichedItems.push(enrichedItem);
-      // Politeness delay
-      await delay(300 + Math.random() * 200, signal);
-    }
-    console.log(`[Zenn] Finished enriching.`);
-    return enrichedItems;
+      const raw = item.raw;
+      return {
+        ...item,
+        publishedAt: raw?.published_at,
+        likeCount: raw?.liked_count,
+        viewCount: undefined,
+        author: raw?.user?.username,
+        authorName: raw?.user?.name || undefined,
+        commentCount: raw?.comments_count,
+        updatedAt: raw?.body_updated_at ?? undefined,
+        readingMinutes: typeof raw?.body_letters_count === 'number' ? estimateReadingMinutes(raw.body_letters_count) : undefined,
+      };
+    });
+  },
+
+  async preview(item: EnrichedItem, signal: AbortSignal): Promise<ArticlePreview> {
+    // The listing API has no body, so the article is fetched by its slug.
+    const slug = item.raw?.slug ?? item.url.match(/\/articles\/([^/?#]+)/)?.[1];
+    if (!slug) throw new Error(`[Zenn] Cannot find the article slug in ${item.url}`);
+    const res = await cachedFetch(`${ZENN_ORIGIN}/api/articles/${encodeURIComponent(slug)}`, { signal });
+    if (!res.ok) throw new Error(`[Zenn] Article request failed with status: ${res.status}`);
+    const data = await res.json();
+    const topics: any[] = Array.isArray(data?.article?.topics) ? data.article.topics : [];
+    return {
+      html: data?.article?.body_html ?? '',
+      tags: topics.map(topic => topic.display_name ?? topic.name),
+    };
   },
 };
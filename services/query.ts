@@ -0,0 +1,242 @@
+import type { QueryField, QueryOperator, QueryTerm, QueryClause, SearchQuery, QueryParseResult, QueryFilters, ExploreMode, SearchParams } from '../types';
+
+const QUERY_FIELDS: QueryField[] = ['tag', 'user', 'title', 'body', 'code', 'stocks', 'likes', 'created', 'updated'];
+const NUMERIC_FIELDS: QueryField[] = ['stocks', 'likes'];
+const DATE_FIELDS: QueryField[] = ['created', 'updated'];
+
+/**
+ * Splits a raw query into words on whitespace or ampersands, keeping quoted phrases intact.
+ * @param input The raw search query string.
+ * @param errors Collects lexing errors such as unterminated quotes.
+ * @returns The words with their quotes still attached.
+ */
+function lex(input: string, errors: string[]): string[] {
+  const words: string[] = [];
+  let current = '';
+  let inQuote = false;
+
+  for (const ch of input) {
+    if (ch === '"') {
+      inQuote = !inQuote;
+      current += ch;
+    } else if (!inQuote && /[\s&]/.test(ch)) {
+      if (current) words.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (inQuote) {
+    errors.push('引用符 (") が閉じられていません。');
+    current += '"';
+  }
+  if (current) words.push(current);
+  return words;
+}
+
+const unquote = (value: string) =>
+  value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+
+function isValidDate(value: string): boolean {
+  const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (!match) return false;
+  const [, year, month = '01', day = '01'] = match;
+  const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(`${year}-${month}-${day}`);
+}
+
+/**
+ * Checks that a term's value is acceptable for its field.
+ * @param term The term to validate.
+ * @returns An error message, or undefined if the term is valid.
+ */
+function validateTerm(term: QueryTerm): string | undefined {
+  if (term.value === '') {
+    return term.field ? `${term.field}: の値が空です。` : '空のキーワードがあります。';
+  }
+  if (!term.field) return undefined;
+  if (NUMERIC_FIELDS.includes(term.field) && !/^\d+$/.test(term.value)) {
+    return `${term.field}: には数値を指定してください (${term.value})。`;
+  }
+  if (DATE_FIELDS.includes(term.field) && !isValidDate(term.value)) {
+    return `${term.field}: には YYYY-MM-DD 形式の日付を指定してください (${term.value})。`;
+  }
+  return undefined;
+}
+
+function parseTerm(word: string): QueryTerm {
+  let rest = word;
+  let negated = false;
+  if (rest.length > 1 && rest.startsWith('-')) {
+    negated = true;
+    rest = rest.slice(1);
+  }
+
+  const fieldMatch = rest.match(/^([a-zA-Z]+):(.*)$/s);
+  const field = fieldMatch?.[1].toLowerCase() as QueryField | undefined;
+  if (!fieldMatch || !field || !QUERY_FIELDS.includes(field)) {
+    // Unknown qualifiers are passed through as plain keywords, like Qiita does.
+    return { value: unquote(rest), negated };
+  }
+
+  let value = fieldMatch[2];
+  let operator: QueryOperator | undefined;
+  if (NUMERIC_FIELDS.includes(field) || DATE_FIELDS.includes(field)) {
+    const opMatch = value.match(/^(>=|<=|>|<)?(.*)$/s)!;
+    operator = (opMatch[1] as QueryOperator | undefined) ?? '=';
+    value = opMatch[2];
+  }
+  return { field, value: unquote(value), operator, negated };
+}
+
+/**
+ * Parses a Qiita-style search string into a query AST.
+ * Supports `field:value` qualifiers, `-` exclusions, quoted phrases and `OR` between terms.
+ * @param input The raw search query string.
+ * @returns The parsed query and any validation errors.
+ */
+export function parseQuery(input: string): QueryParseResult {
+  const errors: string[] = [];
+  const clauses: QueryClause[] = [];
+  let pendingOr = false;
+
+  for (const word of lex(input, errors)) {
+    if (word === 'OR') {
+      if (clauses.length === 0 || pendingOr) {
+        errors.push('OR の前後にはキーワードが必要です。');
+      } else {
+        pendingOr = true;
+      }
+      continue;
+    }
+
+    const term = parseTerm(word);
+    const error = validateTerm(term);
+    if (error) errors.push(error);
+
+    if (pendingOr) {
+      clauses[clauses.length - 1].push(term);
+      pendingOr = false;
+    } else {
+      clauses.push([term]);
+    }
+  }
+  if (pendingOr) errors.push('OR の前後にはキーワードが必要です。');
+
+  return { query: { clauses }, errors };
+}
+
+function formatValue(value: string): string {
+  if (value === 'OR' || /[\s&"]/.test(value)) {
+    return `"${value.replace(/"/g, '')}"`;
+  }
+  return value;
+}
+
+function formatTerm(term: QueryTerm): string {
+  const prefix = term.negated ? '-' : '';
+  const value = formatValue(term.value);
+  if (!term.field) return `${prefix}${value}`;
+  const operator = term.operator && term.operator !== '=' ? term.operator : '';
+  return `${prefix}${term.field}:${operator}${value}`;
+}
+
+/**
+ * Serializes a query AST back to the Qiita API v2 `query=` syntax.
+ * @param query The query to serialize.
+ * @returns The query string, e.g. `react tag:TypeScript -jquery created:>=2024-01-01`.
+ */
+export function formatQuery(query: SearchQuery): string {
+  return query.clauses
+    .map(clause => clause.map(formatTerm).join(' OR '))
+    .join(' ');
+}
+
+/**
+ * Converts the structured search form inputs into query terms, one clause per filter.
+ * @param filters The filter values from the search form.
+ * @returns The resulting clauses and any validation errors.
+ */
+function filtersToClauses(filters: QueryFilters): { clauses: QueryClause[]; errors: string[] } {
+  const terms: QueryTerm[] = [
+    ...filters.tags.map(tag => ({ field: 'tag' as const, value: tag, negated: false })),
+    ...filters.exclusions.map(word => ({ value: word, negated: true })),
+  ];
+  if (filters.author.trim()) {
+    terms.push({ field: 'user', value: filters.author.trim().replace(/^@/, ''), negated: false });
+  }
+  if (filters.createdFrom) {
+    terms.push({ field: 'created', operator: '>=', value: filters.createdFrom, negated: false });
+  }
+  if (filters.createdTo) {
+    terms.push({ field: 'created', operator: '<=', value: filters.createdTo, negated: false });
+  }
+  if (filters.minLikes !== undefined) {
+    terms.push({ field: 'likes', operator: '>=', value: String(filters.minLikes), negated: false });
+  }
+
+  const errors = terms.map(validateTerm).filter((e): e is string => Boolean(e));
+  if (filters.createdFrom && filters.createdTo && filters.createdFrom > filters.createdTo) {
+    errors.push('期間の開始日が終了日より後になっています。');
+  }
+  return { clauses: terms.map(term => [term]), errors };
+}
+
+/**
+ * Builds the final query from the free-text input and the structured filters.
+ * @param input The raw search query string.
+ * @param filters The filter values from the search form.
+ * @returns The combined query and all validation errors.
+ */
+export function buildQuery(input: string, filters: QueryFilters): QueryParseResult {
+  const parsed = parseQuery(input);
+  const fromFilters = filtersToClauses(filters);
+  return {
+    query: { clauses: [...parsed.query.clauses, ...fromFilters.clauses] },
+    errors: [...parsed.errors, ...fromFilters.errors],
+  };
+}
+
+/**
+ * Extracts the plain AND keywords from a query, for providers that don't understand qualifiers.
+ * @param query The parsed query.
+ * @returns Keyword tokens, excluding qualifiers, exclusions and OR alternatives.
+ */
+export function queryKeywords(query: SearchQuery): string[] {
+  return query.clauses
+    .filter(clause => clause.length === 1)
+    .map(clause => clause[0])
+    .filter(term => !term.field && !term.negated)
+    .map(term => term.value);
+}
+
+const exploreLabels: { [K in ExploreMode['kind']]: (id: string) => string } = {
+  userItems: id => `@${id} の記事`,
+  userStocks: id => `@${id} のストック`,
+  tagItems: id => `タグ「${id}」の記事`,
+};
+
+/**
+ * Describes a user or tag listing, e.g. `@alice の記事`.
+ * @param mode The exploration mode.
+ * @returns The display label.
+ */
+export const describeExplore = (mode: ExploreMode) => exploreLabels[mode.kind](mode.id);
+
+/**
+ * Describes a search in one line, for history entries, watch names and charts.
+ * @param params The search parameters.
+ * @returns The listing label, or the combined query string.
+ */
+export function describeSearch(params: SearchParams): string {
+  return params.explore ? describeExplore(params.explore) : formatQuery(buildQuery(params.query, params.filters).query);
+}
+
+export const emptyFilters: QueryFilters = {
+  tags: [],
+  author: '',
+  createdFrom: '',
+  createdTo: '',
+  minLikes: undefined,
+  exclusions: [],
+};
@@ -0,0 +1,84 @@
+import type { EnrichedItem, ScoreWeights, ScoreBreakdown, ScoreSortKey } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+export const defaultScoreWeights: { [K in ScoreSortKey]: ScoreWeights } = {
+  relevance: { rank: 3, likes: 1, velocity: 0, recency: 0.5, titleMatch: 3 },
+  trending: { rank: 0, likes: 1, velocity: 4, recency: 2, titleMatch: 0.5 },
+};
+
+export const scoreSignalLabels: { [K in keyof ScoreWeights]: string } = {
+  rank: '検索順位',
+  likes: 'いいね',
+  velocity: 'いいね/日',
+  recency: '新しさ',
+  titleMatch: 'タイトル一致',
+};
+
+const ageInDays = (item: EnrichedItem, now: number) => {
+  const published = item.publishedAt ? new Date(item.publishedAt).getTime() : NaN;
+  return isNaN(published) ? undefined : Math.max(0, (now - published) / DAY_MS);
+};
+
+const velocityOf = (item: EnrichedItem, now: number) => {
+  const age = ageInDays(item, now);
+  return age === undefined ? 0 : (item.likeCount ?? 0) / Math.max(1, age);
+};
+
+// Log scaling keeps a handful of viral articles from flattening everything else.
+const logNormalize = (value: number, max: number) => (max > 0 ? Math.log1p(value) / Math.log1p(max) : 0);
+
+/**
+ * Computes the composite score of every item. Likes and velocity are normalized
+ * against the best item in the set, so scores are only comparable within one result set.
+ * @param items The items to score.
+ * @param tokens The query keywords, for title matching.
+ * @param weights The weight of each signal.
+ * @param now The reference time for age-based signals.
+ * @returns Score breakdowns keyed by item URL.
+ */
+export function scoreItems(
+  items: EnrichedItem[],
+  tokens: string[],
+  weights: ScoreWeights,
+  now: number = Date.now()
+): Map<string, ScoreBreakdown> {
+  const maxLikes = items.reduce((max, item) => Math.max(max, item.likeCount ?? 0), 0);
+  const maxVelocity = items.reduce((max, item) => Math.max(max, velocityOf(item, now)), 0);
+  const loweredTokens = tokens.map(token => token.toLowerCase());
+  const weightSum = Object.values(weights).reduce((sum, w) => sum + Math.max(0, w), 0);
+
+  const scores = new Map<string, ScoreBreakdown>();
+  for (const item of items) {
+    const age = ageInDays(item, now);
+    const title = (item.title ?? '').toLowerCase();
+    const signals: ScoreWeights = {
+      rank: item.rank ? 1 / Math.sqrt(item.rank) : 0,
+      likes: logNormalize(item.likeCount ?? 0, maxLikes),
+      velocity: logNormalize(velocityOf(item, now), maxVelocity),
+      recency: age === undefined ? 0 : 0.5 ** (age / RECENCY_HALF_LIFE_DAYS),
+      titleMatch: loweredTokens.length > 0
+        ? loweredTokens.filter(token => title.includes(token)).length / loweredTokens.length
+        : 0,
+    };
+
+    const weighted = Object.fromEntries(
+      (Object.keys(signals) as (keyof ScoreWeights)[]).map(key => [key, signals[key] * Math.max(0, weights[key])])
+    ) as ScoreWeights;
+    const sum = Object.values(weighted).reduce((acc, v) => acc + v, 0);
+    scores.set(item.url, { ...weighted, total: weightSum > 0 ? (sum / weightSum) * 100 : 0 });
+  }
+  return scores;
+}
+
+/**
+ * Formats a score breakdown for a tooltip.
+ * @param score The breakdown to describe.
+ * @returns One line per signal plus the total.
+ */
+export function describeScore(score: ScoreBreakdown): string {
+  const lines = (Object.keys(scoreSignalLabels) as (keyof ScoreWeights)[])
+    .map(key => `${scoreSignalLabels[key]}: ${score[key].toFixed(2)}`);
+  return [...lines, `合計: ${score.total.toFixed(1)}`].join('\n');
+}
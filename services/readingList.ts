@@ -0,0 +1,120 @@
+import type { EnrichedItem, ReadingListEntry } from '../types';
+import { storageGet, storageSet } from './storage';
+
+const READING_LIST_KEY = 'readingList';
+const EXPORT_VERSION = 1;
+
+/**
+ * Loads the reading list.
+ * @returns A promise that resolves to the stored entries.
+ */
+export async function loadReadingList(): Promise<ReadingListEntry[]> {
+  return storageGet<ReadingListEntry[]>(READING_LIST_KEY, []);
+}
+
+/**
+ * Persists the reading list.
+ * @param entries The entries to store.
+ */
+export async function saveReadingList(entries: ReadingListEntry[]): Promise<void> {
+  await storageSet(READING_LIST_KEY, entries);
+}
+
+/**
+ * Adds search results to the reading list, skipping articles already on it.
+ * @param entries The current reading list.
+ * @param items The items to add.
+ * @returns The updated reading list, newest first.
+ */
+export function addToReadingList(entries: ReadingListEntry[], items: EnrichedItem[]): ReadingListEntry[] {
+  const existing = new Set(entries.map(entry => entry.url));
+  const now = Date.now();
+  const added: ReadingListEntry[] = items
+    .filter(item => !existing.has(item.url))
+    .map(item => ({
+      url: item.url,
+      source: item.source,
+      title: item.title,
+      author: item.author,
+      publishedAt: item.publishedAt,
+      likeCount: item.likeCount,
+      tags: item.tags,
+      addedAt: now,
+      read: false,
+      personalTags: [],
+      note: '',
+    }));
+  return [...added, ...entries];
+}
+
+/**
+ * Applies a partial update to one entry. Marking an entry read stamps `readAt`.
+ * @param entries The current reading list.
+ * @param url The URL of the entry to update.
+ * @param patch The fields to change.
+ * @returns The updated reading list.
+ */
+export function updateReadingListEntry(
+  entries: ReadingListEntry[],
+  url: string,
+  patch: Partial<Omit<ReadingListEntry, 'url'>>
+): ReadingListEntry[] {
+  return entries.map(entry => {
+    if (entry.url !== url) return entry;
+    const next = { ...entry, ...patch };
+    if (patch.read !== undefined) next.readAt = patch.read ? Date.now() : undefined;
+    return next;
+  });
+}
+
+/**
+ * Removes entries from the reading list.
+ * @param entries The current reading list.
+ * @param urls The URLs to remove.
+ * @returns The updated reading list.
+ */
+export function removeFromReadingList(entries: ReadingListEntry[], urls: string[]): ReadingListEntry[] {
+  const removed = new Set(urls);
+  return entries.filter(entry => !removed.has(entry.url));
+}
+
+/**
+ * Serializes the whole reading list for backup or sharing.
+ * @param entries The reading list.
+ * @returns A JSON document.
+ */
+export function exportReadingList(entries: ReadingListEntry[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), entries }, null, 2);
+}
+
+const isEntry = (value: any): value is ReadingListEntry =>
+  value && typeof value.url === 'string' && typeof value.source === 'string';
+
+/**
+ * Merges an exported reading list into the current one. Entries already on the
+ * list keep their local state; missing fields in imported entries get defaults.
+ * @param entries The current reading list.
+ * @param json A document produced by `exportReadingList`, or a bare array of entries.
+ * @returns The merged list and the number of entries added.
+ * @throws Error if the document is not valid JSON or has no entries array.
+ */
+export function importReadingList(entries: ReadingListEntry[], json: string): { entries: ReadingListEntry[]; added: number } {
+  const parsed = JSON.parse(json);
+  const incoming: unknown[] | undefined = Array.isArray(parsed) ? parsed : parsed?.entries;
+  if (!Array.isArray(incoming)) {
+    throw new Error('リーディングリストの形式が正しくありません。');
+  }
+
+  const existing = new Set(entries.map(entry => entry.url));
+  const added = incoming
+    .filter(isEntry)
+    .filter(entry => !existing.has(entry.url) && existing.add(entry.url))
+    .map(entry => ({
+      ...entry,
+      addedAt: typeof entry.addedAt === 'number' ? entry.addedAt : Date.now(),
+      read: Boolean(entry.read),
+      personalTags: Array.isArray(entry.personalTags) ? entry.personalTags.map(String) : [],
+      note: typeof entry.note === 'string' ? entry.note : '',
+    }));
+  return { entries: [...entries, ...added], added: added.length };
+}
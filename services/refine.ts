@@ -0,0 +1,73 @@
+import type { EnrichedItem, RefineState, FacetCount } from '../types';
+
+export type FacetField = 'sources' | 'tags' | 'authors';
+
+export const emptyRefine: RefineState = {
+  text: '',
+  sources: [],
+  tags: [],
+  authors: [],
+  minLikes: 0,
+  from: '',
+  to: '',
+};
+
+const facetValues: { [F in FacetField]: (item: EnrichedItem) => string[] } = {
+  sources: item => [item.source],
+  tags: item => item.tags ?? [],
+  authors: item => (item.author ? [item.author] : []),
+};
+
+/**
+ * Checks whether any refinement is active.
+ * @param state The refinement state.
+ * @returns True if at least one filter narrows the results.
+ */
+export function isRefined(state: RefineState): boolean {
+  return state.text.trim() !== '' || state.sources.length > 0 || state.tags.length > 0
+    || state.authors.length > 0 || state.minLikes > 0 || state.from !== '' || state.to !== '';
+}
+
+/**
+ * Filters fetched items in memory.
+ * @param items The items to filter.
+ * @param state The refinement state.
+ * @returns The items that match every active filter.
+ */
+export function applyRefine(items: EnrichedItem[], state: RefineState): EnrichedItem[] {
+  if (!isRefined(state)) return items;
+  const text = state.text.trim().toLowerCase();
+
+  return items.filter(item => {
+    if (text && !(item.title ?? '').toLowerCase().includes(text)) return false;
+    for (const field of Object.keys(facetValues) as FacetField[]) {
+      const selected = state[field];
+      if (selected.length > 0 && !facetValues[field](item).some(value => selected.includes(value))) return false;
+    }
+    if (state.minLikes > 0 && (item.likeCount ?? 0) < state.minLikes) return false;
+    if (state.from || state.to) {
+      const date = item.publishedAt?.slice(0, 10);
+      if (!date) return false;
+      if (state.from && date < state.from) return false;
+      if (state.to && date > state.to) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Counts how many items carry each value of a facet.
+ * @param items The items to count over.
+ * @param field The facet to count.
+ * @returns Values with their counts, most frequent first.
+ */
+export function computeFacets(items: EnrichedItem[], field: FacetField): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const value of facetValues[field](item)) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
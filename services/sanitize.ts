@@ -0,0 +1,120 @@
+// Allowlist sanitizer for article bodies rendered in the preview pane.
+
+export type Heading = {
+  id: string;
+  text: string;
+  level: number; // 1-6
+};
+
+export type SanitizedHtml = {
+  html: string;
+  text: string; // Plain text, for the local full-text index
+  headings: Heading[];
+};
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'blockquote', 'pre', 'code', 'kbd', 'em', 'strong', 'b', 'i', 's', 'del', 'ins', 'sub', 'sup', 'mark',
+  'a', 'img', 'figure', 'figcaption', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  'details', 'summary', 'span', 'div',
+]);
+
+// Removed together with their content; anything else not allowed is unwrapped.
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'object', 'embed', 'form', 'input', 'button', 'textarea',
+  'select', 'noscript', 'template', 'link', 'meta', 'base', 'svg', 'math', 'video', 'audio',
+]);
+
+const ALLOWED_ATTRIBUTES: { [tag: string]: string[] } = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  th: ['colspan', 'rowspan', 'align'],
+  td: ['colspan', 'rowspan', 'align'],
+  ol: ['start'],
+};
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Resolves a link against the article URL and rejects unsafe schemes such as `javascript:`.
+ * @returns The absolute URL, or undefined if it must be removed.
+ */
+function safeUrl(value: string, baseUrl: string): string | undefined {
+  if (value.startsWith('#')) return value;
+  try {
+    const url = new URL(value, baseUrl);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sanitizeElement(el: Element, baseUrl: string) {
+  const tag = el.tagName.toLowerCase();
+  const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+  for (const attr of Array.from(el.attributes)) {
+    if (!allowed.includes(attr.name)) {
+      el.removeAttribute(attr.name);
+    } else if (attr.name === 'href' || attr.name === 'src') {
+      const url = safeUrl(attr.value, baseUrl);
+      if (url) {
+        el.setAttribute(attr.name, url);
+      } else {
+        el.removeAttribute(attr.name);
+      }
+    }
+  }
+  if (tag === 'a' && !el.getAttribute('href')?.startsWith('#')) {
+    el.setAttribute('target', '_blank');
+    el.setAttribute('rel', 'noopener noreferrer');
+  }
+  if (tag === 'img') {
+    el.setAttribute('loading', 'lazy');
+    el.setAttribute('referrerpolicy', 'no-referrer');
+  }
+}
+
+function walk(node: Node, baseUrl: string) {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.COMMENT_NODE) {
+      child.remove();
+      continue;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) continue;
+
+    const el = child as Element;
+    const tag = el.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      el.remove();
+      continue;
+    }
+    walk(el, baseUrl);
+    if (ALLOWED_TAGS.has(tag)) {
+      sanitizeElement(el, baseUrl);
+    } else {
+      el.replaceWith(...Array.from(el.childNodes));
+    }
+  }
+}
+
+/**
+ * Strips an article body down to safe formatting markup and collects its headings.
+ * Links open in a new tab, relative URLs are resolved against the article, and
+ * headings get stable ids for the table of contents.
+ * @param html The untrusted HTML body.
+ * @param baseUrl The article URL.
+ * @returns The sanitized HTML, its plain text and its outline.
+ */
+export function sanitizeHtml(html: string, baseUrl: string): SanitizedHtml {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  walk(doc.body, baseUrl);
+
+  const headings: Heading[] = [];
+  doc.body.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach((el, index) => {
+    const id = `preview-heading-${index}`;
+    el.setAttribute('id', id);
+    const text = el.textContent?.trim() ?? '';
+    if (text) headings.push({ id, text, level: Number(el.tagName[1]) });
+  });
+  return { html: doc.body.innerHTML, text: doc.body.textContent ?? '', headings };
+}
@@ -0,0 +1,180 @@
+import { delay } from '../utils';
+import { backendFetch } from './fetchBackend';
+
+export type HostPolicy = {
+  concurrency: number; // Max requests in flight to the host
+  minIntervalMs: number; // Politeness gap between request starts
+};
+
+export type ScheduledFetchInit = {
+  signal: AbortSignal;
+  headers?: HeadersInit;
+  timeoutMs?: number; // Per attempt
+  maxRetries?: number;
+};
+
+type HostState = {
+  active: number;
+  lastStartedAt: number;
+  waiting: (() => void)[];
+};
+
+const DEFAULT_POLICY: HostPolicy = { concurrency: 2, minIntervalMs: 300 };
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+
+const hostPolicies: { [host: string]: HostPolicy } = {
+  'qiita.com': { concurrency: 1, minIntervalMs: 600 },
+  'zenn.dev': { concurrency: 2, minIntervalMs: 400 },
+  'note.com': { concurrency: 3, minIntervalMs: 300 },
+  'html.duckduckgo.com': { concurrency: 1, minIntervalMs: 1_000 },
+  'bookmark.api.hatena.ne.jp': { concurrency: 1, minIntervalMs: 500 },
+};
+
+const hostStates = new Map<string, HostState>();
+
+/**
+ * Overrides the concurrency policy for a host.
+ * @param host The hostname, e.g. 'qiita.com'.
+ * @param policy The new limits.
+ */
+export function setHostPolicy(host: string, policy: HostPolicy): void {
+  hostPolicies[host] = policy;
+}
+
+const policyFor = (host: string) => hostPolicies[host] ?? DEFAULT_POLICY;
+
+function stateFor(host: string): HostState {
+  let state = hostStates.get(host);
+  if (!state) {
+    state = { active: 0, lastStartedAt: 0, waiting: [] };
+    hostStates.set(host, state);
+  }
+  return state;
+}
+
+/**
+ * Waits for a free slot on the host, honoring its concurrency and start interval.
+ * @returns A function that releases the slot.
+ */
+async function acquireSlot(host: string, signal: AbortSignal): Promise<() => void> {
+  const state = stateFor(host);
+  const policy = policyFor(host);
+
+  while (state.active >= policy.concurrency) {
+    await new Promise<void>((resolve, reject) => {
+      const wake = () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        state.waiting = state.waiting.filter(w => w !== wake);
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+      if (signal.aborted) return onAbort();
+      state.waiting.push(wake);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+  state.active++;
+
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    state.active--;
+    state.waiting.shift()?.();
+  };
+
+  try {
+    const wait = state.lastStartedAt + policy.minIntervalMs - Date.now();
+    // Reserve the start time before sleeping so concurrent callers space out.
+    state.lastStartedAt = Math.max(Date.now(), state.lastStartedAt + policy.minIntervalMs);
+    if (wait > 0) await delay(wait, signal);
+  } catch (error) {
+    release();
+    throw error;
+  }
+  return release;
+}
+
+const isRetriableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Reads a Retry-After header given either in seconds or as an HTTP date.
+ * @returns The wait in milliseconds, or undefined if absent or unparsable.
+ */
+function parseRetryAfter(res: Response): number | undefined {
+  const header = res.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter.
+const backoffMs = (attempt: number) =>
+  Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+
+/**
+ * Runs one fetch attempt with a timeout, linked to the caller's abort signal.
+ */
+async function fetchWithTimeout(url: string, init: ScheduledFetchInit): Promise<Response> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  init.signal.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), init.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  try {
+    return await backendFetch(url, { signal: controller.signal, headers: init.headers });
+  } catch (error) {
+    if (init.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+    if (controller.signal.aborted) throw new Error(`Request timed out: ${url}`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    init.signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Fetches a URL through the shared scheduler: per-host concurrency and spacing,
+ * a per-attempt timeout, and retries with exponential backoff and jitter on
+ * network errors, timeouts, 429 and 5xx (honoring Retry-After).
+ * Aborting the signal cancels both queued and in-flight requests.
+ * @param url The URL to fetch.
+ * @param init The abort signal, headers and retry options.
+ * @returns A promise that resolves to the final response, which may still be non-OK.
+ */
+export async function scheduledFetch(url: string, init: ScheduledFetchInit): Promise<Response> {
+  const host = new URL(url).hostname;
+  const maxRetries = init.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    if (init.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    const release = await acquireSlot(host, init.signal);
+    let res: Response | undefined;
+    let failure: unknown;
+    try {
+      res = await fetchWithTimeout(url, init);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+      failure = error;
+    } finally {
+      release();
+    }
+
+    const retriable = failure !== undefined || (res !== undefined && isRetriableStatus(res.status));
+    if (!retriable || attempt >= maxRetries) {
+      if (failure !== undefined) throw failure;
+      return res!;
+    }
+
+    const wait = (res && parseRetryAfter(res)) ?? backoffMs(attempt);
+    console.warn(`[Scheduler] ${failure ? 'Request failed' : `HTTP ${res!.status}`} for ${url}, retrying in ${Math.round(wait)}ms (${attempt + 1}/${maxRetries}).`);
+    await delay(wait, init.signal);
+  }
+}
@@ -0,0 +1,45 @@
+import { storageGet, storageSet, storageSubscribe } from './storage';
+
+// Hand-off from the context menu and omnibox (service worker) to the side panel.
+
+const SEARCH_REQUEST_KEY = 'searchRequest';
+const MAX_REQUEST_AGE_MS = 5 * 60 * 1000; // Older requests are dropped rather than run on a later open
+const MAX_QUERY_LENGTH = 200;
+
+type SearchRequest = {
+  query: string;
+  requestedAt: number; // Epoch milliseconds
+};
+
+/**
+ * Asks the side panel to search for some text, e.g. a selection on a page.
+ * @param text The text to search for. Whitespace is collapsed and long text is truncated.
+ */
+export async function requestSearch(text: string): Promise<void> {
+  const query = text.replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_LENGTH);
+  if (!query) return;
+  await storageSet<SearchRequest>(SEARCH_REQUEST_KEY, { query, requestedAt: Date.now() });
+}
+
+/**
+ * Reads and clears the pending search request, if any.
+ * @returns A promise that resolves to the query to search for, or undefined.
+ */
+export async function takeSearchRequest(): Promise<string | undefined> {
+  const request = await storageGet<SearchRequest | null>(SEARCH_REQUEST_KEY, null);
+  if (!request) return undefined;
+  await storageSet(SEARCH_REQUEST_KEY, null);
+  return Date.now() - request.requestedAt <= MAX_REQUEST_AGE_MS ? request.query : undefined;
+}
+
+/**
+ * Notifies an already open side panel of new search requests.
+ * Call `takeSearchRequest` from the listener to claim the request.
+ * @param listener Called when a request is made.
+ * @returns A function that removes the listener.
+ */
+export function subscribeSearchRequests(listener: () => void): () => void {
+  return storageSubscribe<SearchRequest | null>(SEARCH_REQUEST_KEY, request => {
+    if (request) listener();
+  });
+}
@@ -0,0 +1,37 @@
+import type { AppSettings } from '../types';
+import { storageGet, storageSet } from './storage';
+import { defaultScoreWeights } from './ranking';
+
+const SETTINGS_KEY = 'settings';
+
+export const defaultSettings: AppSettings = {
+  qiitaToken: '',
+  exportFormat: 'urls',
+  exportTemplate: '- [{title}]({url}) ({likeCount}❤)',
+  cacheTtlMinutes: 60,
+  cacheMaxEntries: 2000,
+  scoreWeights: defaultScoreWeights,
+  customProviders: [],
+  fetchMode: 'direct',
+  proxyUrl: 'http://localhost:8787/',
+  columns: { visible: ['source', 'published', 'likes'], widths: {} },
+  fetchLimits: { maxTotal: 500, depths: {}, stopBefore: '' },
+  copyLimit: 50,
+};
+
+/**
+ * Loads the user's settings, filling in defaults for any missing fields.
+ * @returns A promise that resolves to the settings.
+ */
+export async function loadSettings(): Promise<AppSettings> {
+  const stored = await storageGet<Partial<AppSettings>>(SETTINGS_KEY, {});
+  return { ...defaultSettings, ...stored };
+}
+
+/**
+ * Persists the user's settings.
+ * @param settings The settings to store.
+ */
+export async function saveSettings(settings: AppSettings): Promise<void> {
+  await storageSet(SETTINGS_KEY, settings);
+}
@@ -0,0 +1,55 @@
+/// <reference types="chrome" />
+
+// Thin wrapper over chrome.storage.local, falling back to localStorage when
+// the app runs outside the extension (e.g. `vite dev`).
+
+const hasChromeStorage = () => typeof chrome !== 'undefined' && !!chrome.storage?.local;
+
+/**
+ * Reads a value from extension storage.
+ * @param key The storage key.
+ * @param fallback The value to return when nothing is stored yet.
+ * @returns A promise that resolves to the stored value or the fallback.
+ */
+export async function storageGet<T>(key: string, fallback: T): Promise<T> {
+  try {
+    if (hasChromeStorage()) {
+      const result = await chrome.storage.local.get(key);
+      return key in result ? (result[key] as T) : fallback;
+    }
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.error(`[Storage] Failed to read "${key}":`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Writes a value to extension storage.
+ * @param key The storage key.
+ * @param value A JSON-serializable value.
+ */
+export async function storageSet<T>(key: string, value: T): Promise<void> {
+  if (hasChromeStorage()) {
+    await chrome.storage.local.set({ [key]: value });
+    return;
+  }
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+/**
+ * Subscribes to changes of a stored value, including writes from other
+ * extension contexts such as the background service worker.
+ * @param key The storage key.
+ * @param listener Called with the new value.
+ * @returns A function that removes the listener.
+ */
+export function storageSubscribe<T>(key: string, listener: (value: T | undefined) => void): () => void {
+  if (!hasChromeStorage() || !chrome.storage.onChanged) return () => {};
+  const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'local' && key in changes) listener(changes[key].newValue as T | undefined);
+  };
+  chrome.storage.onChanged.addListener(handler);
+  return () => chrome.storage.onChanged.removeListener(handler);
+}
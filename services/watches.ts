@@ -0,0 +1,189 @@
+import type { EnrichedItem, Provider, SearchParams, Watch } from '../types';
+import { runSearch } from './aggregator';
+import { buildQuery, describeSearch, queryKeywords } from './query';
+import { canonicalizeUrl } from './dedupe';
+import { storageGet, storageSet, storageSubscribe } from './storage';
+
+const WATCHES_KEY = 'watches';
+const ALARM_PREFIX = 'watch:';
+const MAX_RESULTS_PER_CHECK = 100;
+const MAX_SEEN_URLS = 2000; // Oldest URLs are forgotten first
+const MAX_NEW_ITEMS = 100;
+
+export const watchIntervalOptions = [15, 60, 180, 720, 1440]; // Minutes
+export const defaultWatchInterval = 60;
+
+/**
+ * Loads the watched queries.
+ * @returns A promise that resolves to the stored watches.
+ */
+export async function loadWatches(): Promise<Watch[]> {
+  return storageGet<Watch[]>(WATCHES_KEY, []);
+}
+
+/**
+ * Applies a change to the stored watches. The list is re-read right before
+ * writing, since the side panel and the service worker both update it.
+ * @param update Returns the new list given the current one.
+ * @returns A promise that resolves to the saved list.
+ */
+export async function modifyWatches(update: (watches: Watch[]) => Watch[]): Promise<Watch[]> {
+  const next = update(await loadWatches());
+  await storageSet(WATCHES_KEY, next);
+  return next;
+}
+
+/**
+ * Subscribes to changes of the stored watches from any extension context.
+ * @param listener Called with the new list.
+ * @returns A function that removes the listener.
+ */
+export function subscribeWatches(listener: (watches: Watch[]) => void): () => void {
+  return storageSubscribe<Watch[]>(WATCHES_KEY, watches => listener(watches ?? []));
+}
+
+/**
+ * Picks the providers a watch's search goes to when checked in the service
+ * worker, which has no DOMParser for sources that parse HTML.
+ * @param params The watched search.
+ * @param providers The registered providers.
+ * @returns The providers that can run the check; empty if none can.
+ */
+export function watchProviders(params: SearchParams, providers: Provider[]): Provider[] {
+  // Listings ignore the chosen sources and go to every provider that can browse users and tags.
+  return providers.filter(
+    p => !p.capabilities.requiresDom && (params.explore ? p.capabilities.explore : params.sources.includes(p.id))
+  );
+}
+
+/**
+ * Creates a watch for a search. Its first check only records a baseline,
+ * so articles that already exist are not reported as new.
+ * @param params The search to re-run.
+ * @param intervalMinutes How often to check.
+ * @returns The new watch.
+ */
+export function createWatch(params: SearchParams, intervalMinutes = defaultWatchInterval): Watch {
+  return {
+    id: crypto.randomUUID(),
+    name: describeSearch(params),
+    params,
+    intervalMinutes,
+    createdAt: Date.now(),
+    seenUrls: [],
+    newItems: [],
+  };
+}
+
+/**
+ * Applies a partial update to one watch.
+ * @param watches The current watches.
+ * @param id The id of the watch to update.
+ * @param patch The fields to change.
+ * @returns The updated list.
+ */
+export function updateWatch(watches: Watch[], id: string, patch: Partial<Omit<Watch, 'id'>>): Watch[] {
+  return watches.map(watch => (watch.id === id ? { ...watch, ...patch } : watch));
+}
+
+/**
+ * Removes one watch.
+ * @param watches The current watches.
+ * @param id The id of the watch to remove.
+ * @returns The updated list.
+ */
+export function removeWatch(watches: Watch[], id: string): Watch[] {
+  return watches.filter(watch => watch.id !== id);
+}
+
+/**
+ * Counts unreviewed new articles across all watches, for the action badge.
+ * @param watches The watches.
+ * @returns The total number of new items.
+ */
+export function countNewItems(watches: Watch[]): number {
+  return watches.reduce((sum, watch) => sum + watch.newItems.length, 0);
+}
+
+export const watchAlarmName = (id: string) => `${ALARM_PREFIX}${id}`;
+
+export const watchIdFromAlarm = (name: string) => (name.startsWith(ALARM_PREFIX) ? name.slice(ALARM_PREFIX.length) : undefined);
+
+// Provider payloads can be large and are not needed once enriched.
+const stripRaw = ({ raw, ...item }: EnrichedItem): EnrichedItem => item;
+
+export type WatchCheck = {
+  checkedAt: number;
+  error?: string; // Set when some providers failed
+  seenUrls: string[]; // Canonical URLs found in this check
+  fresh: EnrichedItem[]; // Items to report as new
+};
+
+/**
+ * Re-runs a watched search, bypassing the response cache, and diffs the
+ * results against the URLs seen so far.
+ * @param watch The watch to check.
+ * @param providers The providers available in the calling context.
+ * @param signal An abort signal.
+ * @param accessTokens Provider access tokens, as for `runSearch`.
+ * @returns The outcome of the check, to be merged with `applyWatchCheck`.
+ * @throws Error if the watch's query is invalid or every provider fails.
+ */
+export async function checkWatch(
+  watch: Watch,
+  providers: Provider[],
+  signal: AbortSignal,
+  accessTokens?: { [providerId: string]: string }
+): Promise<WatchCheck> {
+  const { explore } = watch.params;
+  const built = buildQuery(watch.params.query, watch.params.filters);
+  if (!explore && built.errors.length > 0) throw new Error(built.errors[0]);
+
+  const selected = watchProviders(watch.params, providers);
+  if (selected.length === 0) throw new Error('バックグラウンドで確認できるソースがありません（Noteなどは対象外です）。');
+  let failed: string[] = [];
+  const items = await runSearch({
+    tokens: explore ? [] : queryKeywords(built.query),
+    query: explore ? undefined : built.query,
+    explore,
+    providers: selected,
+    maxTotal: MAX_RESULTS_PER_CHECK,
+    signal,
+    accessTokens,
+    forceRefresh: true,
+    onUpdate: ({ progress }) => {
+      failed = Object.keys(progress.providers).filter(id => progress.providers[id].state === 'error');
+    },
+  });
+  const error = failed.length > 0 ? `${failed.join(', ')} の取得に失敗しました。` : undefined;
+  if (error && failed.length === selected.length) throw new Error(error);
+
+  const seen = new Set(watch.seenUrls);
+  const fresh = items.filter(item => !seen.has(canonicalizeUrl(item.url))).map(stripRaw);
+  return {
+    checkedAt: Date.now(),
+    error,
+    seenUrls: fresh.map(item => canonicalizeUrl(item.url)),
+    // The first check only establishes what already exists.
+    fresh: watch.lastCheckedAt === undefined ? [] : fresh,
+  };
+}
+
+/**
+ * Merges a check into the latest stored state of its watch, so edits made
+ * while the check was running (e.g. marking items reviewed) are kept.
+ * @param watch The current watch.
+ * @param check The check result.
+ * @returns The updated watch.
+ */
+export function applyWatchCheck(watch: Watch, check: WatchCheck): Watch {
+  const seen = new Set(watch.seenUrls);
+  const fresh = check.fresh.filter(item => !seen.has(canonicalizeUrl(item.url)));
+  return {
+    ...watch,
+    lastCheckedAt: check.checkedAt,
+    lastError: check.error,
+    seenUrls: [...watch.seenUrls, ...check.seenUrls.filter(url => !seen.has(url))].slice(-MAX_SEEN_URLS),
+    newItems: [...fresh, ...watch.newItems].slice(0, MAX_NEW_ITEMS),
+  };
+}
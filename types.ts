@@ -1,5 +1,18 @@
 
-export type SortKey = 'latest' | 'likes';
+export type SortKey = 'latest' | 'likes' | 'bookmarks' | 'stocks' | 'comments' | 'updated' | 'readingTime' | 'relevance' | 'trending';
+
+// Sort keys ordered by a computed composite score rather than a single field.
+export type ScoreSortKey = 'relevance' | 'trending';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type SortConfig = {
+  key: SortKey;
+  direction: SortDirection;
+};
+
+// How provider requests reach the network: see services/fetchBackend.ts.
+export type FetchMode = 'direct' | 'background' | 'proxy';
 
 export type FoundItem = {
   url: string;
@@ -8,22 +21,269 @@ export type FoundItem = {
   snippet?: string;
   rank?: number; // Search result rank for fallback sorting
   raw?: any; // To pass raw data from search to enrich phase
+  cached?: boolean; // Served from the local response cache
 };
 
 export type EnrichedItem = FoundItem & {
   publishedAt?: string; // ISO format string
   likeCount?: number;
   viewCount?: number;
+  author?: string; // User id on the source platform
+  authorName?: string; // Display name
+  tags?: string[];
+  stockCount?: number;
+  commentCount?: number;
+  updatedAt?: string; // ISO format string
+  readingMinutes?: number; // Estimated from body length
+  hatenaBookmarkCount?: number; // Comparable across sources, unlike likes
 };
 
 export type ProviderOptions = {
   tokens: string[]; // AND keywords
   maxDiscover: number; // Max items for this provider to find
+  query?: SearchQuery; // Structured query for providers that understand qualifiers
+  accessToken?: string; // Personal access token for providers that support auth
+  onRateLimit?: (info: RateLimitInfo) => void; // Called with the quota reported by each response
+  onPage?: (items: FoundItem[]) => void; // Called as each page of results arrives
+  forceRefresh?: boolean; // Bypass the response cache
+  explore?: ExploreMode; // List a user's or tag's articles instead of searching
+  stopBefore?: number; // Epoch milliseconds; skip older results and stop paging once a newest-first listing reaches them
+};
+
+export type EnrichOptions = {
+  forceRefresh?: boolean; // Bypass the response cache
+};
+
+export type PreviewOptions = {
+  accessToken?: string; // Personal access token for providers that support auth
+};
+
+export type RateLimitInfo = {
+  limit?: number;
+  remaining: number;
+  resetAt: number; // Epoch milliseconds
+};
+
+export type AppSettings = {
+  qiitaToken: string;
+  exportFormat: string; // Id of the last used export format
+  exportTemplate: string; // Per-item template for the 'template' export format
+  cacheTtlMinutes: number; // 0 disables the response cache
+  cacheMaxEntries: number;
+  scoreWeights: { [K in ScoreSortKey]: ScoreWeights };
+  customProviders: GenericProviderConfig[];
+  fetchMode: FetchMode;
+  proxyUrl: string; // CORS proxy endpoint for the 'proxy' fetch mode
+  columns: ColumnLayout;
+  fetchLimits: FetchLimits;
+  copyLimit: number; // Top N selected items that are copied or saved
+};
+
+// How deep a search pages through each source.
+export type FetchLimits = {
+  maxTotal: number; // Items kept per search across all sources
+  depths: { [providerId: string]: number }; // Items to find per source; unlisted sources split maxTotal evenly
+  stopBefore: string; // YYYY-MM-DD; results published earlier end the search. Empty to ignore dates
+};
+
+// Which result table columns are shown, and widths the user dragged them to.
+export type ColumnLayout = {
+  visible: string[]; // Column keys; the checkbox, number and title columns are always shown
+  widths: { [key: string]: number }; // Pixels, by column key; missing keys use the default width
+};
+
+// A search source defined without code. Field locators are JSON paths
+// (e.g. `user.name`, `items[0].title`) for 'json', or CSS selectors with an
+// optional `@attribute` (e.g. `h2 a@href`) relative to each result for 'html'.
+export type GenericProviderConfig = {
+  id: string; // Lower-case letters, digits and hyphens
+  displayName: string;
+  searchUrl: string; // Template with {query} and optionally {page}
+  format: 'json' | 'html';
+  items: string; // Locates the result list (JSON path) or each result element (CSS selector)
+  fields: {
+    title: string;
+    url: string;
+    publishedAt?: string;
+    likeCount?: string;
+    author?: string;
+    snippet?: string;
+  };
+  firstPage?: number; // Defaults to 1
+  maxPages?: number; // Defaults to 5
+};
+
+// Relative weight of each signal in the composite score. Signals are normalized to 0..1.
+export type ScoreWeights = {
+  rank: number; // Position in the provider's search results
+  likes: number;
+  velocity: number; // Likes per day since publishing
+  recency: number; // Exponential decay by age
+  titleMatch: number; // Share of query keywords found in the title
+};
+
+export type ScoreBreakdown = ScoreWeights & {
+  total: number; // Weighted sum scaled to 0..100
+};
+
+export type ExportOptions = {
+  template: string;
+};
+
+export interface ExportFormatter {
+  id: string;
+  displayName: string;
+  extension: string; // File extension for downloads, without the dot
+  mimeType: string;
+  format(items: EnrichedItem[], options: ExportOptions): string;
+}
+
+export type ArticlePreview = {
+  html: string; // Rendered article body, untrusted until sanitized
+  tags?: string[]; // For providers whose search results carry no tags
+};
+
+// What a provider can do, so callers can adapt without knowing the provider.
+export type ProviderCapabilities = {
+  paging: boolean; // Fetches more than one page of results
+  metrics: boolean; // Reports likes or other counts
+  body: boolean; // Loads article bodies through `preview`
+  auth: boolean; // Accepts an access token
+  queryQualifiers: boolean; // Understands tag:, user:, created: and other qualifiers
+  explore: boolean; // Lists a user's or tag's articles through `ProviderOptions.explore`
+  requiresDom: boolean; // Parses HTML with DOMParser, so it cannot run in the service worker
 };
 
 export interface Provider {
   id: string;
   displayName: string;
+  capabilities: ProviderCapabilities;
+  maxDiscover?: number; // Most items the source's API can page through
   search(opts: ProviderOptions, signal: AbortSignal): Promise<FoundItem[]>;
-  enrich(items: FoundItem[], signal: AbortSignal): Promise<EnrichedItem[]>;
-}
\ No newline at end of file
+  enrich(items: FoundItem[], signal: AbortSignal, opts?: EnrichOptions): Promise<EnrichedItem[]>;
+  preview?(item: EnrichedItem, signal: AbortSignal, opts?: PreviewOptions): Promise<ArticlePreview>; // Loads the body on demand
+}
+
+// --- Search query AST (maps to Qiita API v2 search syntax) ---
+
+export type QueryField = 'tag' | 'user' | 'title' | 'body' | 'code' | 'stocks' | 'likes' | 'created' | 'updated';
+
+export type QueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryTerm = {
+  field?: QueryField; // undefined for plain keywords
+  value: string;
+  operator?: QueryOperator; // Only used by numeric and date fields
+  negated: boolean; // '-' prefix
+};
+
+// Terms inside a clause are OR'ed; clauses are AND'ed together.
+export type QueryClause = QueryTerm[];
+
+export type SearchQuery = {
+  clauses: QueryClause[];
+};
+
+export type QueryParseResult = {
+  query: SearchQuery;
+  errors: string[];
+};
+
+// Structured inputs from the search form, merged into the parsed query.
+export type QueryFilters = {
+  tags: string[];
+  author: string;
+  createdFrom: string; // YYYY-MM-DD
+  createdTo: string; // YYYY-MM-DD
+  minLikes?: number;
+  exclusions: string[];
+};
+
+// Listings that browse a user or tag instead of searching by keyword.
+export type ExploreMode = {
+  kind: 'userItems' | 'userStocks' | 'tagItems';
+  id: string; // User id or tag name
+};
+
+export type TagInfo = {
+  id: string;
+  followersCount: number;
+  itemsCount: number;
+  iconUrl?: string;
+};
+
+// --- Search history ---
+
+// Everything needed to re-run a search from the form.
+export type SearchParams = {
+  query: string;
+  filters: QueryFilters;
+  sources: string[]; // Provider ids
+  sortKey: SortKey;
+  sortDirection: SortDirection;
+  copyLimit: number;
+  explore?: ExploreMode; // Set for user/tag listings, which ignore the query and filters
+};
+
+export type HistoryEntry = {
+  id: string;
+  params: SearchParams;
+  searchedAt: number; // Epoch milliseconds of the latest run
+  resultCount: number;
+  name?: string; // Set for saved searches
+  pinned: boolean;
+};
+
+// --- Client-side refinement of fetched results ---
+
+export type RefineState = {
+  text: string; // Substring match on title
+  sources: string[]; // Facets: OR within a facet, AND across facets
+  tags: string[];
+  authors: string[];
+  minLikes: number;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+};
+
+export type FacetCount = {
+  value: string;
+  count: number;
+};
+
+// --- Reading list ---
+
+export type ReadingListEntry = Pick<EnrichedItem, 'url' | 'source' | 'title' | 'author' | 'publishedAt' | 'likeCount' | 'tags'> & {
+  addedAt: number; // Epoch milliseconds
+  read: boolean;
+  readAt?: number; // Epoch milliseconds
+  personalTags: string[];
+  note: string;
+};
+
+// --- Watched queries ---
+
+export type Watch = {
+  id: string;
+  name: string;
+  params: SearchParams;
+  intervalMinutes: number;
+  createdAt: number; // Epoch milliseconds
+  lastCheckedAt?: number; // Epoch milliseconds; unset until the first check records a baseline
+  lastError?: string;
+  seenUrls: string[]; // Canonical URLs already known
+  newItems: EnrichedItem[]; // Found since the user last reviewed the watch
+};
+
+// --- Local full-text index ---
+
+export type SnippetSegment = {
+  text: string;
+  match: boolean; // Highlighted as a query match
+};
+
+export type FullTextHit = {
+  item: EnrichedItem;
+  score: number;
+  snippet: SnippetSegment[];
+};
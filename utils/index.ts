@@ -1,5 +1,6 @@
 // Fix: Add import for FoundItem type.
 import type { FoundItem } from '../types';
+import { cachedFetch, isCachedResponse } from '../services/cache';
 
 /**
  * Splits an input string by spaces or ampersands into an array of tokens.
@@ -33,12 +34,13 @@ export const delay = (ms: number, signal: AbortSignal) =>
 // Fix: Implement and export the missing duckduckgoSiteSearch function.
 /**
  * Performs a site-specific search on DuckDuckGo and scrapes the results.
- * NOTE: This will likely be blocked by CORS in a browser and requires a server-side proxy.
+ * Outside the extension this is blocked by CORS; the 'proxy' fetch mode gets around it.
  * @param site The domain to search within (e.g., 'note.com').
  * @param tokens The keywords to search for.
  * @param maxResults The maximum number of results to return.
  * @param source The source identifier for the FoundItem.
  * @param signal An AbortSignal to cancel the operation.
+ * @param forceRefresh Bypass the response cache.
  * @returns A promise that resolves to an array of FoundItem.
  */
 export async function duckduckgoSiteSearch(
@@ -46,19 +48,24 @@ export async function duckduckgoSiteSearch(
   tokens: string[],
   maxResults: number,
   source: string,
-  signal: AbortSignal
+  signal: AbortSignal,
+  forceRefresh?: boolean
 ): Promise<FoundItem[]> {
+  // A bare `site:` query would just list arbitrary pages, e.g. when only Qiita qualifiers were given.
+  if (tokens.length === 0) return [];
+
   const query = encodeURIComponent(`site:${site} ${tokens.join(' ')}`);
   // Use the non-JS version of DDG for simpler scraping
   const url = `https://html.duckduckgo.com/html/?q=${query}`;
   const foundItems: FoundItem[] = [];
 
   try {
-    const res = await fetch(url, { signal });
+    const res = await cachedFetch(url, { signal, forceRefresh });
     if (!res.ok) {
       console.error(`[DDG Search] Failed to fetch for site ${site}: ${res.status}`);
       return [];
     }
+    const cached = isCachedResponse(res);
     const html = await res.text();
     if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
 
@@ -87,6 +94,7 @@ export async function duckduckgoSiteSearch(
             snippet: snippet,
             source: source,
             rank: index + 1,
+            cached,
           });
         }
       }
@@ -100,3 +108,40 @@ export async function duckduckgoSiteSearch(
   
   return foundItems.slice(0, maxResults);
 }
+
+/**
+ * Estimates reading time from the length of an article body.
+ * Uses ~500 characters per minute, a common figure for Japanese technical text.
+ * @param charCount The number of characters in the body.
+ * @returns The estimated reading time in whole minutes (at least 1).
+ */
+export function estimateReadingMinutes(charCount: number): number {
+  return Math.max(1, Math.round(charCount / 500));
+}
+
+/**
+ * Formats a duration as a countdown string.
+ * @param ms The duration in milliseconds. Negative values are treated as zero.
+ * @returns The duration as `m:ss`, or `h:mm:ss` when an hour or longer.
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Tells whether an article was published before a cutoff.
+ * @param iso The publish date, as an ISO format string.
+ * @param cutoff Epoch milliseconds, or undefined for no cutoff.
+ * @returns True only if both are known and the article is older, so undated articles are kept.
+ */
+export function isPublishedBefore(iso: string | undefined, cutoff: number | undefined): boolean {
+  if (cutoff === undefined || !iso) return false;
+  const time = new Date(iso).getTime();
+  return !isNaN(time) && time < cutoff;
+}
@@ -10,6 +10,18 @@ export default defineConfig(({ mode }) => {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },
+      build: {
+        rollupOptions: {
+          // The service worker is its own entry, emitted at a fixed path for manifest.json.
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            background: path.resolve(__dirname, 'background.ts'),
+          },
+          output: {
+            entryFileNames: chunk => (chunk.name === 'background' ? 'background.js' : 'assets/[name]-[hash].js'),
+          },
+        },
+      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),